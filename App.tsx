@@ -1,28 +1,54 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { SimulationParams, SimulationState, SurfaceConfig, SimulationResult, SurfaceType } from './types';
-import { SURFACES, INITIAL_PARAMS, GRAVITY } from './constants';
+import { SimulationParams, SimulationState, SurfaceConfig, SimulationResult, Trajectory, Experiment, RunRecord } from './types';
+import { INITIAL_PARAMS, DEFAULT_PLAYBACK_SPEED } from './constants';
+import { createInitialState, runToCompletion, computeResults, getFrameTime, SimulationRun } from './services/simulationEngine';
+import { loadRunHistory, saveRunHistory, createRunRecord, addRun, nextRunNumber } from './services/runHistory';
+import { createExperiment, decodeExperimentHash, encodeExperimentHash } from './services/experimentFile';
+import { loadSurfaceLibrary, saveSurfaceLibrary, setStaticCoeff, setKineticCoeff, toggleStaticOffsetLock } from './services/surfaceLibrary';
 import Controls from './components/Controls';
+import ExperimentMenu from './components/ExperimentMenu';
+import PlaybackControls from './components/PlaybackControls';
 import Track from './components/Track';
+import SurfaceEditor from './components/SurfaceEditor';
 import ResultsChart from './components/ResultsChart';
+import AccuracyTable from './components/AccuracyTable';
+import PullAngleTable from './components/PullAngleTable';
+import CollisionTable from './components/CollisionTable';
+import SegmentTable from './components/SegmentTable';
+import TrajectoryCharts from './components/TrajectoryCharts';
+import SweepExplorer from './components/SweepExplorer';
+import ExportPanel from './components/ExportPanel';
+import RunHistory from './components/RunHistory';
 import AIInsights from './components/AIInsights';
 import { Beaker } from 'lucide-react';
 
-// Time step for simulation loop (seconds)
-const DT = 0.016; // ~60 FPS
-const SPEED_MULTIPLIER = 5; // Speed up the simulation visually
-const IMPULSE_DURATION = 0.5; // Seconds for the "Initial Push" option
-
 const App: React.FC = () => {
-  const [params, setParams] = useState<SimulationParams>(INITIAL_PARAMS);
-  const [surfaceConfigs, setSurfaceConfigs] = useState<SurfaceConfig[]>(SURFACES);
+  // A shared link (or a refresh) opens exactly the setup in the URL hash
+  const [sharedLink] = useState(() => decodeExperimentHash(window.location.hash));
+  const [params, setParams] = useState<SimulationParams>(() => sharedLink?.experiment?.params ?? INITIAL_PARAMS);
+  const [surfaceConfigs, setSurfaceConfigs] = useState<SurfaceConfig[]>(() => sharedLink?.experiment?.surfaces ?? loadSurfaceLibrary());
   const [states, setStates] = useState<SimulationState[]>([]);
   const [isRunning, setIsRunning] = useState(false);
   const [isFinished, setIsFinished] = useState(false);
-  const [showForceValues, setShowForceValues] = useState(false);
-  const [showStaticLimit, setShowStaticLimit] = useState(false);
+  // Whether the replay is advancing; a paused run is still running
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [playbackSpeed, setPlaybackSpeed] = useState(DEFAULT_PLAYBACK_SPEED);
+  const [showForceValues, setShowForceValues] = useState(() => sharedLink?.experiment?.options.showForceValues ?? false);
+  const [showStaticLimit, setShowStaticLimit] = useState(() => sharedLink?.experiment?.options.showStaticLimit ?? false);
+  const [results, setResults] = useState<SimulationResult[]>([]);
+  const [trajectories, setTrajectories] = useState<Trajectory[]>([]);
+  const [runHistory, setRunHistory] = useState<RunRecord[]>(loadRunHistory);
+  // The setup the results came from; tracks stay editable after a run finishes
+  const [ranWith, setRanWith] = useState<{ params: SimulationParams; surfaces: SurfaceConfig[] }>({ params, surfaces: surfaceConfigs });
   
   const animationRef = useRef<number>(0);
   const lastTimeRef = useRef<number>(0);
+  // Precomputed engine output being replayed, and how far into it we are (sim seconds)
+  const runRef = useRef<SimulationRun | null>(null);
+  const playbackTimeRef = useRef<number>(0);
+  // The loop reads the speed through a ref so a change applies mid-replay
+  const playbackSpeedRef = useRef<number>(DEFAULT_PLAYBACK_SPEED);
 
   // Initialize states
   useEffect(() => {
@@ -30,21 +56,13 @@ const App: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Run once on mount
 
-  const resetSimulation = (currentParams: SimulationParams = params) => {
-    const initialStates: SimulationState[] = surfaceConfigs.map(s => ({
-      id: s.type,
-      position: 0,
-      velocity: 0,
-      acceleration: 0,
-      timeElapsed: 0,
-      isFinished: false,
-      status: 'static',
-      frictionForce: 0,
-      currentAppliedForce: currentParams.appliedForce // Initialize with current applied force
-    }));
-    setStates(initialStates);
+  const resetSimulation = (currentParams: SimulationParams = params, currentSurfaces: SurfaceConfig[] = surfaceConfigs) => {
+    setStates(currentSurfaces.map(s => createInitialState(s, currentParams)));
     setIsRunning(false);
     setIsFinished(false);
+    setIsPlaying(false);
+    setFrameIndex(0);
+    runRef.current = null;
     if (animationRef.current) cancelAnimationFrame(animationRef.current);
   };
 
@@ -56,180 +74,147 @@ const App: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [surfaceConfigs]); 
 
+  // Keep the user's surface library across visits
+  useEffect(() => {
+    saveSurfaceLibrary(surfaceConfigs);
+  }, [surfaceConfigs]);
+
+  const experiment = createExperiment(params, surfaceConfigs, { showForceValues, showStaticLimit });
+
+  // Mirror the setup into the hash so a refresh keeps it and the address bar is always shareable
+  useEffect(() => {
+    window.history.replaceState(null, '', `#${encodeExperimentHash(experiment)}`);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [params, surfaceConfigs, showForceValues, showStaticLimit]);
+
+  useEffect(() => {
+    saveRunHistory(runHistory);
+  }, [runHistory]);
+
+  // Every run that plays through to the end goes into the history once
+  useEffect(() => {
+    if (!isFinished || results.length === 0) return;
+    setRunHistory(prev => addRun(prev, createRunRecord(ranWith.params, ranWith.surfaces, results, nextRunNumber(prev))));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isFinished]);
+
+  const handleLoadExperiment = (loaded: Experiment) => {
+    setParams(loaded.params);
+    setSurfaceConfigs(loaded.surfaces);
+    setShowForceValues(loaded.options.showForceValues);
+    setShowStaticLimit(loaded.options.showStaticLimit);
+    resetSimulation(loaded.params, loaded.surfaces);
+  };
+
+  const handleSurfacesChange = (next: SurfaceConfig[]) => {
+    // Tracks may have been added or removed, so any finished run no longer matches
+    setSurfaceConfigs(next);
+    resetSimulation(params, next);
+  };
+
   const handleStart = () => {
-    if (isFinished) {
-      resetSimulation();
-      // Wait for state update before starting
-      setTimeout(() => startLoop(), 0);
-    } else {
-      startLoop();
-    }
+    if (animationRef.current) cancelAnimationFrame(animationRef.current);
+    startLoop();
   };
 
-  const handleFrictionChange = (type: SurfaceType, newKinetic: number) => {
+  const handleFrictionChange = (surfaceId: string, coefficient: 'static' | 'kinetic', value: number) => {
+    // Tuned by hand now, so the setters also drop any literature source
     setSurfaceConfigs(prev => prev.map(s => {
-      if (s.type === type) {
-        return {
-          ...s,
-          kineticFrictionCoeff: newKinetic,
-          // Enforce static friction is always 0.1 greater than kinetic
-          staticFrictionCoeff: parseFloat((newKinetic + 0.1).toFixed(2))
-        };
-      }
-      return s;
+      if (s.id !== surfaceId) return s;
+      return coefficient === 'static' ? setStaticCoeff(s, value) : setKineticCoeff(s, value);
     }));
   };
 
+  const handleToggleLock = (surfaceId: string) => {
+    setSurfaceConfigs(prev => prev.map(s => (s.id === surfaceId ? toggleStaticOffsetLock(s) : s)));
+  };
+
   const startLoop = () => {
+    // The whole run is solved up front with a fixed step; the loop only replays it
+    runRef.current = runToCompletion(params, surfaceConfigs);
+    setResults(computeResults(runRef.current, surfaceConfigs, params));
+    setTrajectories(runRef.current.trajectories);
+    setRanWith({ params, surfaces: surfaceConfigs });
     setIsRunning(true);
     setIsFinished(false);
+    showFrame(0);
+    play();
+  };
+
+  // Puts frame `index` on the tracks and lines the replay clock up with it
+  const showFrame = (index: number) => {
+    const run = runRef.current;
+    if (!run) return;
+    const clamped = Math.max(0, Math.min(index, run.frames.length - 1));
+    playbackTimeRef.current = clamped * run.timeStep;
+    setFrameIndex(clamped);
+    setStates(run.frames[clamped]);
+    // Stepping or scrubbing to the end finishes the run just like playing through
+    if (clamped === run.frames.length - 1) {
+      setIsFinished(true);
+      setIsRunning(false);
+    }
+  };
+
+  const play = () => {
+    if (animationRef.current) cancelAnimationFrame(animationRef.current);
+    setIsPlaying(true);
     lastTimeRef.current = performance.now();
     animationRef.current = requestAnimationFrame(loop);
   };
 
+  const pause = () => {
+    if (animationRef.current) cancelAnimationFrame(animationRef.current);
+    setIsPlaying(false);
+  };
+
+  const handlePlayPause = () => {
+    const run = runRef.current;
+    if (!run) return;
+    if (isPlaying) {
+      pause();
+      return;
+    }
+    // Playing from the last frame replays the run from the start
+    if (frameIndex >= run.frames.length - 1) showFrame(0);
+    play();
+  };
+
+  const handleStepFrame = (delta: number) => {
+    pause();
+    showFrame(frameIndex + delta);
+  };
+
+  const handleSeek = (index: number) => {
+    showFrame(index);
+  };
+
+  const handleSpeedChange = (speed: number) => {
+    playbackSpeedRef.current = speed;
+    setPlaybackSpeed(speed);
+  };
+
   const loop = (time: number) => {
+    const run = runRef.current;
+    if (!run) return;
+
     const deltaTime = (time - lastTimeRef.current) / 1000; // Real seconds elapsed
     lastTimeRef.current = time;
+    playbackTimeRef.current += deltaTime * playbackSpeedRef.current;
 
-    const simStep = deltaTime * SPEED_MULTIPLIER;
-
-    setStates(prevStates => {
-      let allFinished = true;
-      
-      const newStates = prevStates.map(state => {
-        if (state.isFinished) return state;
-
-        // Use the current configuration from state, not the constant
-        const surface = surfaceConfigs.find(s => s.type === state.id)!;
-        const normalForce = params.mass * GRAVITY;
-        const maxStaticFriction = surface.staticFrictionCoeff * normalForce;
-        const kineticFriction = surface.kineticFrictionCoeff * normalForce;
-
-        // DETERMINE APPLIED FORCE BASED ON MODE
-        let isForceActive = false;
-        switch (params.forceMode) {
-          case 'continuous':
-            isForceActive = true;
-            break;
-          case 'impulse':
-            isForceActive = state.timeElapsed < IMPULSE_DURATION;
-            break;
-          case 'timed':
-            isForceActive = state.timeElapsed < params.forceDuration;
-            break;
-          case 'distance':
-            isForceActive = state.position < params.forceDistanceLimit;
-            break;
-        }
-
-        const pushForce = isForceActive ? params.appliedForce : 0;
-
-        let newStatus = state.status;
-        let newAcc = 0;
-        let newVel = state.velocity;
-        let newPos = state.position;
-        let newTime = state.timeElapsed;
-        let currentFriction = 0;
-
-        // Check if it can move
-        if (state.status === 'static') {
-          // If in static state, time doesn't increment in this model logic until it starts moving,
-          // OR we treat it as t=0 check. 
-          // However, if force is "Initial Push", it should apply at t=0.
-          
-          if (pushForce > maxStaticFriction) {
-            newStatus = 'moving';
-            currentFriction = kineticFriction;
-          } else {
-            // Stuck
-            newStatus = 'static';
-            currentFriction = pushForce; // Resists equally up to static limit
-            // Note: If force stops (e.g. Impulse ends but it never moved), pushForce becomes 0.
-            if (pushForce === 0) {
-               currentFriction = 0;
-            }
-            allFinished = false; 
-          }
-        } else if (state.status === 'moving') {
-          currentFriction = kineticFriction;
-          
-          // F_net = F_push - F_friction
-          // Note: If pushForce is 0, Net Force is negative (only friction), slowing it down.
-          const netForce = pushForce - kineticFriction;
-          newAcc = netForce / params.mass;
-
-          // Update physics
-          newVel += newAcc * simStep;
-          
-          // Check for stop if velocity drops to 0 (or below due to discrete step)
-          if (newVel <= 0 && pushForce <= kineticFriction) {
-             newVel = 0;
-             newAcc = 0;
-             // If force is still pushing but less than kinetic friction? (Rare with this model, usually push > static > kinetic)
-             // But if pushForce turned OFF, then yes, it stops.
-             newStatus = 'finished'; // Or should it go back to static? For this track sim, 'finished' usually means "done with run"
-             // But if it stopped in the middle of track:
-             // Let's mark it as 'finished' for simulation purposes if it stops moving mid-track.
-             // Or we can keep it 'static' but at new pos?
-             // To simplify "Race" logic, if it stops moving, it's done.
-          }
-
-          newPos += newVel * simStep;
-          newTime += simStep;
-
-          if (newPos >= params.distance) {
-            newPos = params.distance;
-            newStatus = 'finished';
-          } else {
-            allFinished = false;
-          }
-        } else {
-           // Finished
-           currentFriction = 0;
-        }
-
-        return {
-          ...state,
-          status: newStatus,
-          acceleration: newAcc,
-          velocity: newVel,
-          position: newPos,
-          timeElapsed: newTime,
-          isFinished: newStatus === 'finished',
-          frictionForce: currentFriction,
-          currentAppliedForce: pushForce
-        };
-      });
-
-      // Stop condition
-      const currentlyMoving = newStates.some(s => s.status === 'moving');
-      
-      if (!currentlyMoving && isRunning) {
-        setIsFinished(true);
-        setIsRunning(false);
-        if (animationRef.current) cancelAnimationFrame(animationRef.current);
-      } else {
-        animationRef.current = requestAnimationFrame(loop);
-      }
-
-      return newStates;
-    });
-  };
+    const lastFrame = run.frames.length - 1;
+    const index = Math.min(Math.floor(playbackTimeRef.current / run.timeStep), lastFrame);
+    setFrameIndex(index);
+    setStates(run.frames[index]);
 
-  // Compute results for charts/AI
-  const results: SimulationResult[] = states.map(state => {
-    const surface = surfaceConfigs.find(s => s.type === state.id)!;
-    const normalForce = params.mass * GRAVITY;
-    return {
-      surface: state.id,
-      finalTime: state.isFinished ? state.timeElapsed : Infinity,
-      maxVelocity: state.velocity, // Note: This is current velocity at end, might be 0 if it stopped. ideally we track maxVel separately.
-      didMove: state.position > 0,
-      staticFrictionLimit: surface.staticFrictionCoeff * normalForce,
-      appliedForce: params.appliedForce,
-      forceMode: params.forceMode
-    };
-  });
+    if (index === lastFrame) {
+      setIsPlaying(false);
+      setIsFinished(true);
+      setIsRunning(false);
+    } else {
+      animationRef.current = requestAnimationFrame(loop);
+    }
+  };
 
   return (
     <div className="min-h-screen bg-slate-50 pb-20">
@@ -242,8 +227,15 @@ const App: React.FC = () => {
             </div>
             <h1 className="text-xl font-bold text-slate-900 tracking-tight">FrictionLab <span className="text-slate-400 font-normal hidden sm:inline">| Interactive Physics</span></h1>
           </div>
-          <div className="text-sm text-slate-500 font-medium">
-             Distance: {params.distance}m
+          <div className="flex items-center gap-4">
+            <ExperimentMenu
+              experiment={experiment}
+              onLoad={handleLoadExperiment}
+              initialErrors={sharedLink?.errors}
+            />
+            <div className="text-sm text-slate-500 font-medium hidden sm:block">
+               Distance: {params.distance}m
+            </div>
           </div>
         </div>
       </header>
@@ -253,6 +245,8 @@ const App: React.FC = () => {
         <Controls 
           params={params}
           onParamsChange={(p) => { setParams(p); resetSimulation(p); }}
+          surfaces={surfaceConfigs}
+          onFrictionChange={handleFrictionChange}
           onStart={handleStart}
           onReset={() => resetSimulation()}
           isRunning={isRunning}
@@ -263,19 +257,40 @@ const App: React.FC = () => {
           onToggleShowStaticLimit={() => setShowStaticLimit(prev => !prev)}
         />
 
+        <SurfaceEditor
+          surfaces={surfaceConfigs}
+          onChange={handleSurfacesChange}
+          disabled={isRunning}
+        />
+
         {/* Tracks */}
         <div className="space-y-4 mb-8">
            <h2 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-2">Simulation Tracks</h2>
+           {(isRunning || isFinished) && runRef.current && (
+             <PlaybackControls
+                frameCount={runRef.current.frames.length}
+                frameIndex={frameIndex}
+                time={getFrameTime(runRef.current.frames[frameIndex] ?? [])}
+                endTime={getFrameTime(runRef.current.frames[runRef.current.frames.length - 1])}
+                isPlaying={isPlaying}
+                speed={playbackSpeed}
+                onPlayPause={handlePlayPause}
+                onStep={handleStepFrame}
+                onSeek={handleSeek}
+                onSpeedChange={handleSpeedChange}
+             />
+           )}
            {surfaceConfigs.map((surface) => {
-             const state = states.find(s => s.id === surface.type);
+             const state = states.find(s => s.id === surface.id);
              if (!state) return null;
              return (
                <Track 
-                  key={surface.type} 
+                  key={surface.id} 
                   surface={surface} 
                   state={state} 
                   params={params}
                   onFrictionChange={handleFrictionChange}
+                  onToggleLock={handleToggleLock}
                   readOnly={isRunning}
                   showForceValues={showForceValues}
                   showStaticLimit={showStaticLimit}
@@ -284,14 +299,25 @@ const App: React.FC = () => {
            })}
         </div>
 
+        <SweepExplorer params={params} surfaces={surfaceConfigs} />
+
+        <RunHistory runs={runHistory} onChange={setRunHistory} />
+
         {/* Results */}
         {isFinished && (
            <div className="animate-in fade-in slide-in-from-bottom-4 duration-700">
               <h2 className="text-2xl font-bold text-slate-900 mb-6">Simulation Results</h2>
               <ResultsChart results={results} />
+              <TrajectoryCharts surfaces={ranWith.surfaces} trajectories={trajectories} />
+              <SegmentTable results={results} />
+              <AccuracyTable results={results} />
+              <PullAngleTable results={results} forceAngle={ranWith.params.forceAngle} />
+              <CollisionTable results={results} restitution={ranWith.params.collision.restitution} />
+              <ExportPanel params={ranWith.params} surfaces={ranWith.surfaces} results={results} trajectories={trajectories} />
               
               <AIInsights 
-                params={params} 
+                params={ranWith.params} 
+                surfaces={ranWith.surfaces}
                 results={results} 
                 canGenerate={true} 
               />
@@ -1,27 +1,33 @@
 import React, { useState } from 'react';
-import { SimulationParams, SimulationResult } from '../types';
-import { generatePhysicsExplanation } from '../services/geminiService';
-import { Sparkles, BookOpen, Loader2 } from 'lucide-react';
+import { SimulationParams, SimulationResult, SurfaceConfig, TutorProviderId, TutorSettings } from '../types';
+import { TUTOR_PROVIDERS, TutorExplanation, explainResults, loadTutorSettings, saveTutorSettings } from '../services/tutorProviders';
+import { Sparkles, BookOpen, Loader2, WifiOff } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 
 interface AIInsightsProps {
   params: SimulationParams;
+  surfaces: SurfaceConfig[];
   results: SimulationResult[];
   canGenerate: boolean;
 }
 
-const AIInsights: React.FC<AIInsightsProps> = ({ params, results, canGenerate }) => {
-  const [explanation, setExplanation] = useState<string | null>(null);
+const inputClass = "px-2 py-1 bg-white border border-indigo-200 rounded text-slate-700 text-xs focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none";
+
+const AIInsights: React.FC<AIInsightsProps> = ({ params, surfaces, results, canGenerate }) => {
+  const [explanation, setExplanation] = useState<TutorExplanation | null>(null);
   const [loading, setLoading] = useState(false);
+  const [settings, setSettings] = useState<TutorSettings>(loadTutorSettings);
+
+  const updateSettings = (patch: Partial<TutorSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveTutorSettings(next);
+  };
 
   const handleGenerate = async () => {
     setLoading(true);
     try {
-      const text = await generatePhysicsExplanation(params, results);
-      setExplanation(text);
-    } catch (e) {
-      console.error(e);
-      setExplanation("Sorry, I couldn't generate an explanation at this time.");
+      setExplanation(await explainResults(settings, params, surfaces, results));
     } finally {
       setLoading(false);
     }
@@ -29,6 +35,8 @@ const AIInsights: React.FC<AIInsightsProps> = ({ params, results, canGenerate })
 
   if (!canGenerate && !explanation) return null;
 
+  const chosen = TUTOR_PROVIDERS[settings.provider];
+
   return (
     <div className="bg-gradient-to-br from-indigo-50 to-purple-50 p-6 rounded-2xl shadow-sm border border-indigo-100 mt-8">
       <div className="flex items-center justify-between mb-4">
@@ -49,9 +57,16 @@ const AIInsights: React.FC<AIInsightsProps> = ({ params, results, canGenerate })
 
       {explanation && (
         <div className="prose prose-indigo max-w-none bg-white p-6 rounded-xl border border-indigo-100 shadow-sm animate-in fade-in duration-500">
-           <ReactMarkdown>{explanation}</ReactMarkdown>
-           <div className="mt-4 flex justify-end">
-              <button 
+           {explanation.fallbackReason && (
+             <p className="not-prose flex items-start gap-2 text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 mb-4">
+               <WifiOff size={14} className="mt-0.5 shrink-0" />
+               {chosen.label} couldn't answer ({explanation.fallbackReason}), so this is the offline explanation.
+             </p>
+           )}
+           <ReactMarkdown>{explanation.text}</ReactMarkdown>
+           <div className="mt-4 flex items-center justify-between">
+              <span className="text-xs text-slate-400">Explained by {TUTOR_PROVIDERS[explanation.provider].label}</span>
+              <button
                 onClick={() => setExplanation(null)}
                 className="text-sm text-slate-500 hover:text-indigo-600 underline"
               >
@@ -60,11 +75,62 @@ const AIInsights: React.FC<AIInsightsProps> = ({ params, results, canGenerate })
            </div>
         </div>
       )}
-      
+
       {!explanation && !loading && (
-        <p className="text-slate-600">
-          Get a detailed breakdown of why the objects moved (or didn't) based on the forces involved. Powered by Google Gemini.
-        </p>
+        <>
+          <p className="text-slate-600 mb-4">
+            Get a detailed breakdown of why the objects moved (or didn't) based on the forces involved. {chosen.description}
+          </p>
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="flex flex-col gap-1">
+              <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wide">Tutor</span>
+              <select
+                value={settings.provider}
+                onChange={(e) => updateSettings({ provider: e.target.value as TutorProviderId })}
+                className={inputClass}
+              >
+                {(Object.keys(TUTOR_PROVIDERS) as TutorProviderId[]).map(id => (
+                  <option key={id} value={id}>{TUTOR_PROVIDERS[id].label}</option>
+                ))}
+              </select>
+            </label>
+            {settings.provider === 'openai-compatible' && (
+              <>
+                <label className="flex flex-col gap-1">
+                  <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wide">Endpoint</span>
+                  <input
+                    type="url"
+                    value={settings.endpoint}
+                    onChange={(e) => updateSettings({ endpoint: e.target.value })}
+                    placeholder="http://localhost:8080/v1"
+                    className={`${inputClass} w-56`}
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wide">Model</span>
+                  <input
+                    type="text"
+                    value={settings.model}
+                    onChange={(e) => updateSettings({ model: e.target.value })}
+                    className={`${inputClass} w-36`}
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wide">API key (optional)</span>
+                  <input
+                    type="password"
+                    value={settings.apiKey}
+                    onChange={(e) => updateSettings({ apiKey: e.target.value })}
+                    className={`${inputClass} w-36`}
+                  />
+                </label>
+              </>
+            )}
+          </div>
+          {chosen.needsNetwork && (
+            <p className="text-[10px] text-slate-400 mt-2">If it can't be reached, the offline explainer answers instead.</p>
+          )}
+        </>
       )}
     </div>
   );
@@ -0,0 +1,74 @@
+import React from 'react';
+import { SimulationResult, ErrorReport } from '../types';
+import { INTEGRATOR_LABELS } from '../services/integrators';
+import { Calculator } from 'lucide-react';
+
+interface AccuracyTableProps {
+  results: SimulationResult[];
+}
+
+const formatRelative = (r: ErrorReport) => `${(r.relativeError * 100).toFixed(r.relativeError < 0.001 ? 3 : 2)}%`;
+
+const ErrorCells: React.FC<{ report: ErrorReport; digits: number }> = ({ report, digits }) => (
+  <>
+    <td className="px-3 py-2 font-mono text-slate-700 text-right">{report.numerical.toFixed(digits)}</td>
+    <td className="px-3 py-2 font-mono text-slate-500 text-right">{report.analytic.toFixed(digits)}</td>
+    <td className="px-3 py-2 font-mono text-right">
+      <span className="text-rose-500">{report.absoluteError.toExponential(2)}</span>
+      <span className="text-[10px] text-slate-400 ml-1">({formatRelative(report)})</span>
+    </td>
+  </>
+);
+
+const AccuracyTable: React.FC<AccuracyTableProps> = ({ results }) => {
+  if (results.length === 0) return null;
+  const { integrator, timeStep } = results[0].accuracy;
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 mb-8">
+      <h3 className="text-lg font-semibold text-slate-800 mb-1 flex items-center gap-2">
+        <Calculator size={20} className="text-indigo-500" /> Numerical vs Analytic
+      </h3>
+      <p className="text-xs text-slate-500 mb-4">
+        {INTEGRATOR_LABELS[integrator]} with Δt = {timeStep} s, compared against the exact constant-force solution.
+        {results.some(r => r.accuracy.reference === 'fine-step') && ' Rows marked ref use speed-dependent friction, air drag or a force profile, so they are compared against a fine-step RK4 run instead.'}
+      </p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-[10px] text-slate-400 uppercase tracking-wider border-b border-slate-100">
+              <th rowSpan={2} className="px-3 py-2 text-left">Surface</th>
+              <th colSpan={3} className="px-3 py-1 text-center">Stop Time (s)</th>
+              <th colSpan={3} className="px-3 py-1 text-center">Stop Distance (m)</th>
+              <th colSpan={3} className="px-3 py-1 text-center">Max Velocity (m/s)</th>
+            </tr>
+            <tr className="text-[10px] text-slate-400 uppercase tracking-wider border-b border-slate-100">
+              {[0, 1, 2].map(i => (
+                <React.Fragment key={i}>
+                  <th className="px-3 py-1 text-right">Sim</th>
+                  <th className="px-3 py-1 text-right">Exact</th>
+                  <th className="px-3 py-1 text-right">Error</th>
+                </React.Fragment>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {results.map(r => (
+              <tr key={r.surfaceId} className="border-b border-slate-50">
+                <td className="px-3 py-2 font-medium text-slate-700 whitespace-nowrap">
+                  {r.surface}
+                  {r.accuracy.reference === 'fine-step' && <span className="ml-1 text-[9px] font-bold uppercase text-amber-600">ref</span>}
+                </td>
+                <ErrorCells report={r.accuracy.stopTime} digits={3} />
+                <ErrorCells report={r.accuracy.stopDistance} digits={2} />
+                <ErrorCells report={r.accuracy.maxVelocity} digits={3} />
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AccuracyTable;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { SimulationResult } from '../types';
+import { ArrowRightToLine } from 'lucide-react';
+
+interface CollisionTableProps {
+  results: SimulationResult[];
+  restitution: number; // e used for this run
+}
+
+const MAX_ROWS = 12; // impacts listed per surface; a bouncing pair can rack up many more
+
+const CollisionTable: React.FC<CollisionTableProps> = ({ results, restitution }) => {
+  const withCollisions = results.filter(r => r.collision);
+  if (withCollisions.length === 0) return null;
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 mb-8">
+      <h3 className="text-lg font-semibold text-slate-800 mb-1 flex items-center gap-2">
+        <ArrowRightToLine size={20} className="text-indigo-500" /> Collisions
+      </h3>
+      <p className="text-xs text-slate-500 mb-4">
+        Every impact conserves momentum; with e = {restitution.toFixed(2)} the blocks part at {restitution.toFixed(2)}× the speed they met at, and the rest of the kinetic energy is lost.
+      </p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-[10px] text-slate-400 uppercase tracking-wider border-b border-slate-100">
+              <th className="px-3 py-2 text-left">Surface</th>
+              <th className="px-3 py-2 text-left">Blocks</th>
+              <th className="px-3 py-2 text-right">Time</th>
+              <th className="px-3 py-2 text-right">Where</th>
+              <th className="px-3 py-2 text-right">p Before</th>
+              <th className="px-3 py-2 text-right">p After</th>
+              <th className="px-3 py-2 text-right">Energy Lost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {withCollisions.map(r => {
+              const { events, stopDistances, masses } = r.collision!;
+              return (
+                <React.Fragment key={r.surfaceId}>
+                  {events.slice(0, MAX_ROWS).map((event, i) => (
+                    <tr key={i} className="border-b border-slate-50">
+                      <td className="px-3 py-2 font-medium text-slate-700 whitespace-nowrap">{i === 0 ? r.surface : ''}</td>
+                      <td className="px-3 py-2 font-mono text-slate-700">#{event.bodies[0] + 1} → #{event.bodies[1] + 1}</td>
+                      <td className="px-3 py-2 font-mono text-slate-700 text-right">{event.time.toFixed(2)} s</td>
+                      <td className="px-3 py-2 font-mono text-slate-700 text-right">{event.position.toFixed(2)} m</td>
+                      <td className="px-3 py-2 font-mono text-slate-700 text-right">{event.momentumBefore.toFixed(2)} kg·m/s</td>
+                      <td className="px-3 py-2 font-mono text-slate-700 text-right">{event.momentumAfter.toFixed(2)} kg·m/s</td>
+                      <td className="px-3 py-2 font-mono text-amber-600 font-bold text-right">{event.energyLost.toFixed(1)} J</td>
+                    </tr>
+                  ))}
+                  <tr className="border-b border-slate-100 bg-slate-50/50">
+                    <td className="px-3 py-2 font-medium text-slate-700 whitespace-nowrap">{events.length === 0 ? r.surface : ''}</td>
+                    <td colSpan={6} className="px-3 py-2 text-slate-500">
+                      {events.length === 0 ? 'No impacts. ' : events.length > MAX_ROWS ? `${events.length - MAX_ROWS} more impacts not shown. ` : ''}
+                      Stopped at {stopDistances.map((d, i) => `#${i + 1} (${masses[i]} kg) ${d.toFixed(2)} m`).join(', ')}
+                    </td>
+                  </tr>
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default CollisionTable;
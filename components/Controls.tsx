@@ -1,11 +1,20 @@
 
 import React from 'react';
-import { SimulationParams, ForceMode } from '../types';
-import { Play, RotateCcw, Box, FastForward, Timer, Ruler, MousePointerClick, Infinity as InfinityIcon, Eye, EyeOff } from 'lucide-react';
+import { SimulationParams, SurfaceConfig, SolverSolution, ForceMode, IntegratorType } from '../types';
+import { INTEGRATOR_LABELS } from '../services/integrators';
+import { validateForceProfile } from '../services/forceProfile';
+import { validateStack } from '../services/stackedBlocks';
+import { validateHangingMass } from '../services/forces';
+import { validateCollision } from '../services/collisions';
+import ForceProfileEditor from './ForceProfileEditor';
+import InverseSolver from './InverseSolver';
+import { Play, RotateCcw, Box, FastForward, Timer, Ruler, MousePointerClick, Infinity as InfinityIcon, Eye, EyeOff, Cpu, TriangleRight, Wind, Activity, MoveUpRight, Layers, Weight, ArrowRightToLine, Plus, Trash2 } from 'lucide-react';
 
 interface ControlsProps {
   params: SimulationParams;
   onParamsChange: (newParams: SimulationParams) => void;
+  surfaces: SurfaceConfig[];
+  onFrictionChange: (surfaceId: string, coefficient: 'static' | 'kinetic', value: number) => void;
   onStart: () => void;
   onReset: () => void;
   isRunning: boolean;
@@ -19,6 +28,8 @@ interface ControlsProps {
 const Controls: React.FC<ControlsProps> = ({ 
   params, 
   onParamsChange,
+  surfaces,
+  onFrictionChange,
   onStart, 
   onReset, 
   isRunning,
@@ -45,6 +56,22 @@ const Controls: React.FC<ControlsProps> = ({
     onParamsChange({ ...params, appliedForce: val });
   };
 
+  const handleRampChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    let val = parseFloat(e.target.value);
+    if (isNaN(val)) val = 0;
+    if (val > 60) val = 60;
+    if (val < 0) val = 0;
+    onParamsChange({ ...params, rampAngle: val });
+  };
+
+  const handleForceAngleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    let val = parseFloat(e.target.value);
+    if (isNaN(val)) val = 0;
+    if (val > 85) val = 85;
+    if (val < -45) val = -45;
+    onParamsChange({ ...params, forceAngle: val });
+  };
+
   const handleModeChange = (mode: ForceMode) => {
     onParamsChange({ ...params, forceMode: mode });
   };
@@ -61,6 +88,66 @@ const Controls: React.FC<ControlsProps> = ({
     onParamsChange({ ...params, forceDistanceLimit: val });
   };
 
+  const handleIntegratorChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    onParamsChange({ ...params, integrator: e.target.value as IntegratorType });
+  };
+
+  const handleTimeStepChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    let val = parseFloat(e.target.value);
+    if (isNaN(val)) val = 0.016;
+    if (val > 0.5) val = 0.5;
+    if (val < 0.001) val = 0.001;
+    onParamsChange({ ...params, timeStep: val });
+  };
+
+  const isProfile = params.forceMode === 'profile';
+  const profileValid = !isProfile || validateForceProfile(params.forceProfile).length === 0;
+  const isHanging = params.forceMode === 'hanging';
+  const stackErrors = params.stack.enabled ? validateStack(params.stack) : [];
+  if (params.stack.enabled && isHanging) stackErrors.push('A stack cannot be pulled by a hanging mass yet.');
+  const hangingErrors = isHanging ? validateHangingMass(params) : [];
+  const collisionErrors = params.collision.enabled ? validateCollision(params.collision, params.distance) : [];
+  if (params.collision.enabled && (params.stack.enabled || isHanging)) collisionErrors.push('Collisions work with a single pushed block only.');
+  const startBlocker = !profileValid ? 'Fix the force profile first' : stackErrors[0] ?? hangingErrors[0] ?? collisionErrors[0];
+
+  // Drag inputs share one handler; blank or negative entries fall back to 0
+  const handleDragParamChange = (key: 'airDensity' | 'dragCoefficient' | 'frontalArea') => (e: React.ChangeEvent<HTMLInputElement>) => {
+    let val = parseFloat(e.target.value);
+    if (isNaN(val) || val < 0) val = 0;
+    onParamsChange({ ...params, [key]: val });
+  };
+
+  const handleHangingParamChange = (key: 'hangingMass' | 'pulleyInertia' | 'pulleyRadius') => (e: React.ChangeEvent<HTMLInputElement>) => {
+    onParamsChange({ ...params, [key]: parseFloat(e.target.value) });
+  };
+
+  const handleStackParamChange = (key: 'topMass' | 'staticFrictionCoeff' | 'kineticFrictionCoeff' | 'bottomLength') => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const val = parseFloat(e.target.value);
+    onParamsChange({ ...params, stack: { ...params.stack, [key]: val } });
+  };
+
+  const handleTargetChange = (index: number, key: 'mass' | 'position') => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const targets = params.collision.targets.map((t, i) => (i === index ? { ...t, [key]: parseFloat(e.target.value) } : t));
+    onParamsChange({ ...params, collision: { ...params.collision, targets } });
+  };
+
+  const addTarget = () => {
+    const last = params.collision.targets[params.collision.targets.length - 1];
+    const position = Math.min(params.distance / 2, (last?.position ?? 0) + 5);
+    onParamsChange({ ...params, collision: { ...params.collision, targets: [...params.collision.targets, { mass: 10, position }] } });
+  };
+
+  const removeTarget = (index: number) => {
+    onParamsChange({ ...params, collision: { ...params.collision, targets: params.collision.targets.filter((_, i) => i !== index) } });
+  };
+
+  // μk belongs to one surface; everything else the solver varies is a shared parameter
+  const handleApplySolution = (solution: SolverSolution) => {
+    if (solution.value === null) return;
+    if (solution.variable === 'kineticFrictionCoeff') onFrictionChange(solution.surfaceId, 'kinetic', solution.value);
+    else onParamsChange({ ...params, [solution.variable]: solution.value });
+  };
+
   return (
     <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 mb-6">
       
@@ -115,7 +202,8 @@ const Controls: React.FC<ControlsProps> = ({
                         step="10"
                         value={params.appliedForce}
                         onChange={handleForceChange}
-                        disabled={isRunning}
+                        disabled={isRunning || isProfile || isHanging}
+                        title={isProfile ? 'The force profile sets the push' : isHanging ? 'The hanging mass sets the pull' : undefined}
                         className="flex-grow h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600 disabled:opacity-50"
                     />
                     <div className="relative">
@@ -126,12 +214,274 @@ const Controls: React.FC<ControlsProps> = ({
                             max="2000"
                             value={params.appliedForce}
                             onChange={handleForceChange}
-                            disabled={isRunning}
+                            disabled={isRunning || isProfile || isHanging}
                             className="w-20 px-1.5 py-1 bg-white border border-slate-300 rounded text-right text-slate-700 font-mono text-sm font-medium focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
                         />
                     </div>
                 </div>
             </div>
+
+            {/* Ramp Angle */}
+            <div className="flex-1 min-w-[160px] max-w-[220px]">
+                <label htmlFor="ramp-input" className="block text-[10px] font-bold text-slate-500 uppercase tracking-wide mb-1 flex items-center justify-between">
+                    <span className="flex items-center gap-1"><TriangleRight size={12} /> Ramp Angle</span>
+                    <span className="text-[9px] text-slate-400 font-normal">0 - 60°</span>
+                </label>
+                <div className="flex items-center gap-3">
+                    <input
+                        type="range"
+                        min="0"
+                        max="60"
+                        step="0.5"
+                        value={params.rampAngle}
+                        onChange={handleRampChange}
+                        disabled={isRunning}
+                        className="flex-grow h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600 disabled:opacity-50"
+                    />
+                    <input
+                        id="ramp-input"
+                        type="number"
+                        min="0"
+                        max="60"
+                        step="0.5"
+                        value={params.rampAngle}
+                        onChange={handleRampChange}
+                        disabled={isRunning}
+                        className="w-16 px-1.5 py-1 bg-white border border-slate-300 rounded text-right text-slate-700 font-mono text-sm font-medium focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+                    />
+                </div>
+            </div>
+
+            {/* Pull Angle */}
+            <div className="flex-1 min-w-[160px] max-w-[220px]">
+                <label htmlFor="force-angle-input" className="block text-[10px] font-bold text-slate-500 uppercase tracking-wide mb-1 flex items-center justify-between">
+                    <span className="flex items-center gap-1"><MoveUpRight size={12} /> Pull Angle</span>
+                    <span className="text-[9px] text-slate-400 font-normal">-45 - 85°</span>
+                </label>
+                <div className="flex items-center gap-3">
+                    <input
+                        type="range"
+                        min="-45"
+                        max="85"
+                        step="1"
+                        value={params.forceAngle}
+                        onChange={handleForceAngleChange}
+                        disabled={isRunning || isHanging}
+                        className="flex-grow h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600 disabled:opacity-50"
+                    />
+                    <input
+                        id="force-angle-input"
+                        type="number"
+                        min="-45"
+                        max="85"
+                        step="1"
+                        value={params.forceAngle}
+                        onChange={handleForceAngleChange}
+                        disabled={isRunning || isHanging}
+                        title="Angle of the push above the track; negative presses down"
+                        className="w-16 px-1.5 py-1 bg-white border border-slate-300 rounded text-right text-slate-700 font-mono text-sm font-medium focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+                    />
+                </div>
+            </div>
+
+            {/* Integrator & Step Size */}
+            <div className="min-w-[200px]">
+                <label htmlFor="integrator-select" className="block text-[10px] font-bold text-slate-500 uppercase tracking-wide mb-1 flex items-center justify-between">
+                    <span className="flex items-center gap-1"><Cpu size={12} /> Integrator</span>
+                    <span className="text-[9px] text-slate-400 font-normal">Δt 0.001 - 0.5 s</span>
+                </label>
+                <div className="flex items-center gap-2">
+                    <select
+                        id="integrator-select"
+                        value={params.integrator}
+                        onChange={handleIntegratorChange}
+                        disabled={isRunning}
+                        className="px-1.5 py-1 bg-white border border-slate-300 rounded text-slate-700 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+                    >
+                        {(Object.keys(INTEGRATOR_LABELS) as IntegratorType[]).map(key => (
+                            <option key={key} value={key}>{INTEGRATOR_LABELS[key]}</option>
+                        ))}
+                    </select>
+                    <input
+                        type="number"
+                        min="0.001"
+                        max="0.5"
+                        step="0.001"
+                        value={params.timeStep}
+                        onChange={handleTimeStepChange}
+                        disabled={isRunning}
+                        title="Engine time step (s)"
+                        className="w-20 px-1.5 py-1 bg-white border border-slate-300 rounded text-right text-slate-700 font-mono text-sm font-medium focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+                    />
+                    <label className="flex items-center gap-1 text-[10px] text-slate-500 whitespace-nowrap cursor-pointer" title="Resolve stops and finish crossings exactly instead of on the next frame">
+                        <input
+                            type="checkbox"
+                            checked={params.snapToExact}
+                            onChange={(e) => onParamsChange({ ...params, snapToExact: e.target.checked })}
+                            disabled={isRunning}
+                            className="accent-indigo-600"
+                        />
+                        Snap to exact
+                    </label>
+                </div>
+            </div>
+
+            {/* Air Drag */}
+            <div className="min-w-[220px]">
+                <label className="block text-[10px] font-bold text-slate-500 uppercase tracking-wide mb-1 flex items-center justify-between">
+                    <span className="flex items-center gap-1 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={params.airDrag}
+                            onChange={(e) => onParamsChange({ ...params, airDrag: e.target.checked })}
+                            disabled={isRunning}
+                            className="accent-indigo-600"
+                        />
+                        <Wind size={12} /> Air Drag
+                    </span>
+                    <span className="text-[9px] text-slate-400 font-normal normal-case">½·ρ·Cd·A·v²</span>
+                </label>
+                <div className="flex items-center gap-2">
+                    {([
+                        { key: 'airDensity', label: 'ρ', unit: 'kg/m³', step: '0.01' },
+                        { key: 'dragCoefficient', label: 'Cd', unit: '', step: '0.05' },
+                        { key: 'frontalArea', label: 'A', unit: 'm²', step: '0.01' }
+                    ] as const).map(field => (
+                        <label key={field.key} className="flex items-center gap-1 text-[10px] text-slate-500" title={field.unit}>
+                            {field.label}
+                            <input
+                                type="number"
+                                min="0"
+                                step={field.step}
+                                value={params[field.key]}
+                                onChange={handleDragParamChange(field.key)}
+                                disabled={isRunning || !params.airDrag}
+                                className="w-14 px-1 py-1 bg-white border border-slate-300 rounded text-right text-slate-700 font-mono text-xs focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none disabled:bg-slate-50 disabled:text-slate-400"
+                            />
+                        </label>
+                    ))}
+                </div>
+            </div>
+
+            {/* Stacked Blocks */}
+            <div className="min-w-[260px]">
+                <label className="block text-[10px] font-bold text-slate-500 uppercase tracking-wide mb-1 flex items-center justify-between">
+                    <span className="flex items-center gap-1 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={params.stack.enabled}
+                            onChange={(e) => onParamsChange({ ...params, stack: { ...params.stack, enabled: e.target.checked } })}
+                            disabled={isRunning}
+                            className="accent-indigo-600"
+                        />
+                        <Layers size={12} /> Stacked Blocks
+                    </span>
+                    <span className="text-[9px] text-slate-400 font-normal normal-case">B on A, Mass is A</span>
+                </label>
+                <div className="flex flex-wrap items-center gap-2">
+                    {([
+                        { key: 'topMass', label: 'mB', unit: 'kg', step: '1' },
+                        { key: 'staticFrictionCoeff', label: 'μs', unit: 'between B and A', step: '0.01' },
+                        { key: 'kineticFrictionCoeff', label: 'μk', unit: 'between B and A', step: '0.01' },
+                        { key: 'bottomLength', label: 'L', unit: 'length of A (m)', step: '0.1' }
+                    ] as const).map(field => (
+                        <label key={field.key} className="flex items-center gap-1 text-[10px] text-slate-500" title={field.unit}>
+                            {field.label}
+                            <input
+                                type="number"
+                                min="0"
+                                step={field.step}
+                                value={Number.isNaN(params.stack[field.key]) ? '' : params.stack[field.key]}
+                                onChange={handleStackParamChange(field.key)}
+                                disabled={isRunning || !params.stack.enabled}
+                                className="w-12 px-1 py-1 bg-white border border-slate-300 rounded text-right text-slate-700 font-mono text-xs focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none disabled:bg-slate-50 disabled:text-slate-400"
+                            />
+                        </label>
+                    ))}
+                    <select
+                        value={params.stack.pushOn}
+                        onChange={(e) => onParamsChange({ ...params, stack: { ...params.stack, pushOn: e.target.value as 'top' | 'bottom' } })}
+                        disabled={isRunning || !params.stack.enabled}
+                        title="Which block the push acts on"
+                        className="px-1 py-1 bg-white border border-slate-300 rounded text-slate-700 text-xs focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none disabled:bg-slate-50 disabled:text-slate-400"
+                    >
+                        <option value="top">Push B</option>
+                        <option value="bottom">Push A</option>
+                    </select>
+                </div>
+                {stackErrors.length > 0 && <p className="text-[10px] text-rose-600 mt-1">{stackErrors[0]}</p>}
+            </div>
+
+            {/* Collisions */}
+            <div className="min-w-[260px]">
+                <label className="block text-[10px] font-bold text-slate-500 uppercase tracking-wide mb-1 flex items-center justify-between">
+                    <span className="flex items-center gap-1 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={params.collision.enabled}
+                            onChange={(e) => onParamsChange({ ...params, collision: { ...params.collision, enabled: e.target.checked } })}
+                            disabled={isRunning}
+                            className="accent-indigo-600"
+                        />
+                        <ArrowRightToLine size={12} /> Collisions
+                    </span>
+                    <span className="text-[9px] text-slate-400 font-normal normal-case">resting blocks ahead</span>
+                </label>
+                <div className="flex flex-wrap items-center gap-2">
+                    <label className="flex items-center gap-1 text-[10px] text-slate-500" title="Coefficient of restitution: 0 sticks together, 1 perfectly elastic">
+                        e
+                        <input
+                            type="range"
+                            min="0"
+                            max="1"
+                            step="0.05"
+                            value={params.collision.restitution}
+                            onChange={(e) => onParamsChange({ ...params, collision: { ...params.collision, restitution: parseFloat(e.target.value) } })}
+                            disabled={isRunning || !params.collision.enabled}
+                            className="w-20 h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600 disabled:opacity-50"
+                        />
+                        <span className="w-7 font-mono text-slate-700">{params.collision.restitution.toFixed(2)}</span>
+                    </label>
+                    {params.collision.targets.map((target, i) => (
+                        <div key={i} className="flex items-center gap-1 text-[10px] text-slate-500">
+                            <span className="font-bold">#{i + 2}</span>
+                            {([
+                                { key: 'mass', label: 'm', unit: 'kg', step: '1' },
+                                { key: 'position', label: 'x', unit: 'm from the start', step: '1' }
+                            ] as const).map(field => (
+                                <label key={field.key} className="flex items-center gap-1" title={field.unit}>
+                                    {field.label}
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        step={field.step}
+                                        value={Number.isNaN(target[field.key]) ? '' : target[field.key]}
+                                        onChange={handleTargetChange(i, field.key)}
+                                        disabled={isRunning || !params.collision.enabled}
+                                        className="w-12 px-1 py-1 bg-white border border-slate-300 rounded text-right text-slate-700 font-mono text-xs focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none disabled:bg-slate-50 disabled:text-slate-400"
+                                    />
+                                </label>
+                            ))}
+                            <button
+                                onClick={() => removeTarget(i)}
+                                disabled={isRunning || !params.collision.enabled}
+                                title="Remove this block"
+                                className="p-0.5 text-slate-400 hover:text-rose-600 disabled:opacity-40"
+                            >
+                                <Trash2 size={12} />
+                            </button>
+                        </div>
+                    ))}
+                    <button
+                        onClick={addTarget}
+                        disabled={isRunning || !params.collision.enabled}
+                        className="flex items-center gap-1 px-2 py-0.5 rounded text-[11px] font-medium border bg-white border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-50"
+                    >
+                        <Plus size={10} /> Block
+                    </button>
+                </div>
+                {collisionErrors.length > 0 && <p className="text-[10px] text-rose-600 mt-1">{collisionErrors[0]}</p>}
+            </div>
         </div>
       </div>
 
@@ -173,6 +523,22 @@ const Controls: React.FC<ControlsProps> = ({
             <Ruler size={14} /> Custom Distance
          </button>
 
+         <button 
+            onClick={() => handleModeChange('profile')}
+            disabled={isRunning}
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded text-xs font-medium border transition-colors ${params.forceMode === 'profile' ? 'bg-indigo-50 border-indigo-500 text-indigo-700' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+         >
+            <Activity size={14} /> Profile
+         </button>
+
+         <button 
+            onClick={() => handleModeChange('hanging')}
+            disabled={isRunning}
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded text-xs font-medium border transition-colors ${params.forceMode === 'hanging' ? 'bg-indigo-50 border-indigo-500 text-indigo-700' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+         >
+            <Weight size={14} /> Hanging Mass
+         </button>
+
          {/* Conditional Inputs */}
          {params.forceMode === 'timed' && (
              <div className="flex items-center gap-2 animate-in fade-in slide-in-from-left-2">
@@ -189,6 +555,31 @@ const Controls: React.FC<ControlsProps> = ({
              </div>
          )}
 
+         {isHanging && (
+             <div className="flex flex-wrap items-center gap-2 animate-in fade-in slide-in-from-left-2">
+                 {([
+                     { key: 'hangingMass', label: 'mₕ', unit: 'kg', step: '0.5' },
+                     { key: 'pulleyInertia', label: 'I', unit: 'kg·m²', step: '0.01' },
+                     { key: 'pulleyRadius', label: 'r', unit: 'm', step: '0.01' }
+                 ] as const).map(field => (
+                     <label key={field.key} className="flex items-center gap-1 text-xs text-slate-500">
+                         {field.label}
+                         <input
+                            type="number"
+                            min="0"
+                            step={field.step}
+                            value={Number.isNaN(params[field.key]) ? '' : params[field.key]}
+                            onChange={handleHangingParamChange(field.key)}
+                            disabled={isRunning}
+                            className="w-16 px-2 py-1 text-sm border border-slate-300 rounded focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 outline-none"
+                         />
+                         <span className="text-[10px]">{field.unit}</span>
+                     </label>
+                 ))}
+                 {hangingErrors.length > 0 && <span className="text-[10px] text-rose-600">{hangingErrors[0]}</span>}
+             </div>
+         )}
+
          {params.forceMode === 'distance' && (
              <div className="flex items-center gap-2 animate-in fade-in slide-in-from-left-2">
                  <input 
@@ -232,7 +623,9 @@ const Controls: React.FC<ControlsProps> = ({
             {!isRunning && (
               <button
                 onClick={onStart}
-                className={`flex-1 sm:flex-none flex items-center justify-center gap-2 px-6 py-1.5 rounded-lg font-bold text-sm text-white transition-all hover:scale-105 active:scale-95 ${isFinished ? 'bg-indigo-600' : 'bg-indigo-600'} shadow hover:shadow-indigo-200 whitespace-nowrap min-w-[100px]`}
+                disabled={startBlocker !== undefined}
+                title={startBlocker}
+                className={`flex-1 sm:flex-none flex items-center justify-center gap-2 px-6 py-1.5 rounded-lg font-bold text-sm text-white transition-all hover:scale-105 active:scale-95 disabled:opacity-50 disabled:hover:scale-100 ${isFinished ? 'bg-indigo-600' : 'bg-indigo-600'} shadow hover:shadow-indigo-200 whitespace-nowrap min-w-[100px]`}
               >
                 <Play size={16} fill="currentColor" />
                 {isFinished ? 'Restart' : 'Start'}
@@ -249,8 +642,24 @@ const Controls: React.FC<ControlsProps> = ({
             )}
           </div>
 
+         {isProfile && (
+             <ForceProfileEditor
+                profile={params.forceProfile}
+                onChange={(forceProfile) => onParamsChange({ ...params, forceProfile })}
+                trackDistance={params.distance}
+                disabled={isRunning}
+             />
+         )}
+
       </div>
 
+      <InverseSolver
+         params={params}
+         surfaces={surfaces}
+         disabled={isRunning}
+         onApply={handleApplySolution}
+      />
+
     </div>
   );
 };
@@ -0,0 +1,81 @@
+import React, { useState, useRef } from 'react';
+import { Experiment } from '../types';
+import { serializeExperiment, parseExperiment, encodeExperimentHash } from '../services/experimentFile';
+import { downloadText } from '../services/dataExport';
+import { Download, Upload, Link, Check, X } from 'lucide-react';
+
+interface ExperimentMenuProps {
+  experiment: Experiment; // the current setup, ready to save
+  onLoad: (experiment: Experiment) => void;
+  initialErrors?: string[]; // from a shared link that didn't load
+}
+
+const COPIED_FEEDBACK_MS = 2000;
+
+const buttonClass = "flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-medium border bg-white border-slate-200 text-slate-600 hover:bg-slate-50 transition-colors";
+
+// Export, import and share the whole setup
+const ExperimentMenu: React.FC<ExperimentMenuProps> = ({ experiment, onLoad, initialErrors = [] }) => {
+  const [notice, setNotice] = useState<{ title: string; errors: string[] } | null>(
+    initialErrors.length > 0 ? { title: "Couldn't open the shared link", errors: initialErrors } : null
+  );
+  const [copied, setCopied] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = () => {
+    downloadText(serializeExperiment(experiment), 'frictionlab-experiment.json', 'application/json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // picking the same file again should load it again
+    if (!file) return;
+    const { experiment: loaded, errors: problems } = parseExperiment(await file.text());
+    setNotice(loaded ? null : { title: `Couldn't load ${file.name}`, errors: problems });
+    if (loaded) onLoad(loaded);
+  };
+
+  const handleCopyLink = async () => {
+    const url = `${window.location.origin}${window.location.pathname}#${encodeExperimentHash(experiment)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), COPIED_FEEDBACK_MS);
+    } catch (error) {
+      console.error("Could not copy link:", error);
+      setNotice({ title: "Couldn't copy the link", errors: ['The address bar already holds it; copy it from there instead.'] });
+    }
+  };
+
+  return (
+    <div className="relative flex items-center gap-2">
+      <button onClick={handleExport} className={buttonClass} title="Save params, surfaces and display options as a JSON file">
+        <Download size={14} /> <span className="hidden md:inline">Export</span>
+      </button>
+      <button onClick={() => fileInputRef.current?.click()} className={buttonClass} title="Load an experiment file">
+        <Upload size={14} /> <span className="hidden md:inline">Import</span>
+      </button>
+      <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+      <button onClick={handleCopyLink} className={buttonClass} title="Copy a link that opens this exact setup">
+        {copied ? <Check size={14} className="text-emerald-600" /> : <Link size={14} />}
+        <span className="hidden md:inline">{copied ? 'Copied' : 'Share Link'}</span>
+      </button>
+
+      {notice && (
+        <div className="absolute right-0 top-full mt-2 w-80 bg-white border border-rose-200 rounded-xl shadow-lg p-3 z-40">
+          <div className="flex items-start justify-between gap-2 mb-1">
+            <span className="text-xs font-bold text-rose-600">{notice.title}</span>
+            <button onClick={() => setNotice(null)} className="p-0.5 text-slate-400 hover:text-slate-600" title="Dismiss">
+              <X size={12} />
+            </button>
+          </div>
+          <ul className="list-disc pl-4 space-y-0.5 text-[11px] text-slate-600 max-h-48 overflow-y-auto">
+            {notice.errors.map((error, i) => <li key={i}>{error}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExperimentMenu;
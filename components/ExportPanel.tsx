@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { SimulationParams, SurfaceConfig, SimulationResult, Trajectory } from '../types';
+import { ExportFormat, ExportOptions, DEFAULT_EXPORT_OPTIONS, validateExportOptions, exportResults, exportTrajectories, downloadText } from '../services/dataExport';
+import { FileSpreadsheet, FileDown } from 'lucide-react';
+
+interface ExportPanelProps {
+  params: SimulationParams;
+  surfaces: SurfaceConfig[];
+  results: SimulationResult[];
+  trajectories: Trajectory[];
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = { csv: 'text/csv', json: 'application/json' };
+
+const inputClass = "w-16 px-1.5 py-1 bg-white border border-slate-300 rounded text-right text-slate-700 font-mono text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none";
+
+// Gets the numbers out for spreadsheets: the results table and the recorded run
+const ExportPanel: React.FC<ExportPanelProps> = ({ params, surfaces, results, trajectories }) => {
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const errors = validateExportOptions(options);
+
+  const toggleClass = (active: boolean) =>
+    `px-2 py-0.5 rounded text-[11px] font-medium border transition-colors ${active ? 'bg-indigo-50 border-indigo-500 text-indigo-700' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'}`;
+
+  const download = (name: string, text: string) =>
+    downloadText(text, `frictionlab-${name}.${options.format}`, MIME_TYPES[options.format]);
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 mb-8">
+      <h3 className="text-lg font-semibold text-slate-800 mb-1 flex items-center gap-2">
+        <FileSpreadsheet size={20} className="text-indigo-500" /> Export Data
+      </h3>
+      <p className="text-xs text-slate-500 mb-4">
+        Units are in the column headers. Each file starts with the settings and surfaces that produced it.
+      </p>
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex items-center gap-1">
+          {(['csv', 'json'] as const).map(format => (
+            <button key={format} onClick={() => setOptions({ ...options, format })} className={toggleClass(options.format === format)}>
+              {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500 uppercase tracking-wide">
+          Decimals
+          <input
+            type="number"
+            min="0"
+            max="10"
+            step="1"
+            value={Number.isNaN(options.precision) ? '' : options.precision}
+            onChange={(e) => setOptions({ ...options, precision: parseInt(e.target.value, 10) })}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500 uppercase tracking-wide" title="0 keeps every engine step">
+          Sample every
+          <input
+            type="number"
+            min="0"
+            step="0.05"
+            value={Number.isNaN(options.sampleInterval) ? '' : options.sampleInterval}
+            onChange={(e) => setOptions({ ...options, sampleInterval: parseFloat(e.target.value) })}
+            className={inputClass}
+          />
+          <span className="normal-case font-normal">s</span>
+        </label>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => download('results', exportResults(results, params, surfaces, options))}
+            disabled={errors.length > 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium border bg-white border-slate-200 text-slate-600 hover:bg-slate-50 transition-colors disabled:opacity-50"
+          >
+            <FileDown size={14} /> Results Table
+          </button>
+          <button
+            onClick={() => download('run-data', exportTrajectories(trajectories, params, surfaces, options))}
+            disabled={errors.length > 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium border bg-white border-slate-200 text-slate-600 hover:bg-slate-50 transition-colors disabled:opacity-50"
+          >
+            <FileDown size={14} /> Run Data
+          </button>
+        </div>
+        {errors.length > 0 && <span className="text-[10px] text-rose-600">{errors[0]}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default ExportPanel;
@@ -0,0 +1,158 @@
+import React from 'react';
+import { ForceProfile, ProfileSegment, ProfileSegmentType } from '../types';
+import { PROFILE_SEGMENT_LABELS, DEFAULT_PROFILE_SEGMENTS, compileForceProfile, getProfileLength, validateForceProfile } from '../services/forceProfile';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface ForceProfileEditorProps {
+  profile: ForceProfile;
+  onChange: (profile: ForceProfile) => void;
+  trackDistance: number; // meters, preview span for an F(x) expression
+  disabled: boolean;
+}
+
+const PREVIEW_POINTS = 120;
+
+const FIELD_LABELS: Record<string, string> = {
+  length: 'Length',
+  value: 'F (N)',
+  from: 'From (N)',
+  to: 'To (N)',
+  offset: 'Offset (N)',
+  amplitude: 'Amp (N)',
+  period: 'Period'
+};
+
+const inputClass = "w-16 px-1 py-0.5 bg-white border border-slate-300 rounded text-right text-slate-700 font-mono text-xs focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none disabled:bg-slate-50";
+
+const ForceProfileEditor: React.FC<ForceProfileEditorProps> = ({ profile, onChange, trackDistance, disabled }) => {
+  const errors = validateForceProfile(profile);
+  const unit = profile.variable === 't' ? 's' : 'm';
+
+  const updateSegment = (index: number, patch: Partial<ProfileSegment>) =>
+    onChange({ ...profile, segments: profile.segments.map((s, i) => (i === index ? { ...s, ...patch } as ProfileSegment : s)) });
+
+  const span = profile.kind === 'segments'
+    ? Math.max(getProfileLength(profile), 1) * 1.1
+    : (profile.variable === 't' ? Math.max(profile.expressionEnd || 0, 1) * 1.1 : trackDistance);
+
+  // Preview along the profile's own variable with the other one held at 0
+  const { forceAt } = compileForceProfile(profile);
+  const preview = errors.length > 0 ? [] : Array.from({ length: PREVIEW_POINTS + 1 }, (_, i) => {
+    const s = (i / PREVIEW_POINTS) * span;
+    return { s, force: profile.variable === 't' ? forceAt(s, 0) : forceAt(0, s) };
+  });
+
+  const toggleClass = (active: boolean) =>
+    `px-2 py-0.5 rounded text-[11px] font-medium border transition-colors ${active ? 'bg-indigo-50 border-indigo-500 text-indigo-700' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'}`;
+
+  return (
+    <div className="w-full border border-indigo-100 bg-indigo-50/30 rounded-lg p-3 mt-1 grid grid-cols-1 lg:grid-cols-2 gap-4 animate-in fade-in">
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <button onClick={() => onChange({ ...profile, kind: 'segments' })} disabled={disabled} className={toggleClass(profile.kind === 'segments')}>Segments</button>
+          <button onClick={() => onChange({ ...profile, kind: 'expression' })} disabled={disabled} className={toggleClass(profile.kind === 'expression')}>Expression</button>
+          <span className="w-px h-4 bg-slate-200 mx-1"></span>
+          <button onClick={() => onChange({ ...profile, variable: 't' })} disabled={disabled} className={toggleClass(profile.variable === 't')}>F(t)</button>
+          <button onClick={() => onChange({ ...profile, variable: 'x' })} disabled={disabled} className={toggleClass(profile.variable === 'x')}>F(x)</button>
+        </div>
+
+        {profile.kind === 'expression' ? (
+          <div>
+            <input
+              type="text"
+              value={profile.expression}
+              onChange={(e) => onChange({ ...profile, expression: e.target.value })}
+              disabled={disabled}
+              spellCheck={false}
+              className="w-full px-2 py-1 bg-white border border-slate-300 rounded text-slate-700 font-mono text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+              placeholder="e.g. 200*sin(t) or 150 - 2*x"
+            />
+            <p className="text-[10px] text-slate-400 mt-1">
+              Newtons in terms of t (s) and x (m). Allowed: + − * / ^, sin, cos, tan, abs, sqrt, exp, log, min, max, floor, ceil, step, pi.
+            </p>
+            <label className="flex items-center gap-1 text-[10px] text-slate-500 mt-1">
+              Push ends at t =
+              <input
+                type="number"
+                step="any"
+                min="0"
+                value={Number.isNaN(profile.expressionEnd) ? '' : profile.expressionEnd}
+                onChange={(e) => onChange({ ...profile, expressionEnd: e.target.value.trim() === '' ? NaN : parseFloat(e.target.value) })}
+                disabled={disabled}
+                className={inputClass}
+              />
+              s (only used when the expression reads t)
+            </label>
+          </div>
+        ) : (
+          <div className="space-y-1">
+            {profile.segments.map((segment, i) => (
+              <div key={i} className="flex flex-wrap items-center gap-2 text-[10px] text-slate-500">
+                <span className="font-bold text-slate-600 w-12">{i + 1}. {PROFILE_SEGMENT_LABELS[segment.type]}</span>
+                {Object.entries(segment).filter(([key]) => key !== 'type').map(([key, value]) => (
+                  <label key={key} className="flex items-center gap-1">
+                    {key === 'length' || key === 'period' ? `${FIELD_LABELS[key]} (${unit})` : FIELD_LABELS[key]}
+                    <input
+                      type="number"
+                      step="any"
+                      value={Number.isNaN(value) ? '' : value}
+                      onChange={(e) => updateSegment(i, { [key]: e.target.value.trim() === '' ? NaN : parseFloat(e.target.value) })}
+                      disabled={disabled}
+                      className={inputClass}
+                    />
+                  </label>
+                ))}
+                <button
+                  onClick={() => onChange({ ...profile, segments: profile.segments.filter((_, j) => j !== i) })}
+                  disabled={disabled}
+                  className="p-0.5 text-slate-400 hover:text-rose-600 disabled:opacity-40"
+                  title="Remove segment"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            ))}
+            <div className="flex flex-wrap gap-1 pt-1">
+              {(Object.keys(DEFAULT_PROFILE_SEGMENTS) as ProfileSegmentType[]).map(type => (
+                <button
+                  key={type}
+                  onClick={() => onChange({ ...profile, segments: [...profile.segments, DEFAULT_PROFILE_SEGMENTS[type]] })}
+                  disabled={disabled}
+                  className="flex items-center gap-1 px-2 py-0.5 rounded text-[11px] font-medium border bg-white border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-50"
+                >
+                  <Plus size={10} /> {PROFILE_SEGMENT_LABELS[type]}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {errors.length > 0 && (
+          <ul className="text-xs text-rose-600 list-disc list-inside">
+            {errors.map(err => <li key={err}>{err}</li>)}
+          </ul>
+        )}
+      </div>
+
+      {/* Preview */}
+      <div className="h-32">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={preview} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="s" type="number" domain={[0, span]} tickFormatter={(v: number) => v.toFixed(0)} unit={unit} fontSize={10} />
+            <YAxis width={40} fontSize={10} unit="N" />
+            <Tooltip
+              labelFormatter={(s) => `${profile.variable} = ${Number(s).toFixed(2)} ${unit}`}
+              formatter={(v) => `${Number(v).toFixed(1)} N`}
+              contentStyle={{borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)'}}
+            />
+            <Line dataKey="force" name="Push" stroke="#22c55e" strokeWidth={2} dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default ForceProfileEditor;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { SurfaceConfig } from '../types';
+import { getEffectiveFrictionCoeff, getFrictionModel, FRICTION_MODEL_LABELS } from '../services/frictionModels';
+import { FRICTION_PLOT_MAX_SPEED } from '../constants';
+
+interface FrictionCurveProps {
+  surface: SurfaceConfig;
+  normalForce: number;
+  velocity: number;
+}
+
+const WIDTH = 88;
+const HEIGHT = 56;
+const SAMPLES = 40;
+
+// Tiny mu(v) plot: the dashed line is mu_s, the dot is the block's current speed
+const FrictionCurve: React.FC<FrictionCurveProps> = ({ surface, normalForce, velocity }) => {
+  const label = FRICTION_MODEL_LABELS[getFrictionModel(surface).type];
+  const muAt = (v: number) => getEffectiveFrictionCoeff(surface, normalForce, v);
+  const speeds = Array.from({ length: SAMPLES + 1 }, (_, i) => (i / SAMPLES) * FRICTION_PLOT_MAX_SPEED);
+  const mus = speeds.map(muAt);
+  const muMax = Math.max(surface.staticFrictionCoeff, ...mus) * 1.15 || 1;
+
+  const x = (v: number) => (Math.min(v, FRICTION_PLOT_MAX_SPEED) / FRICTION_PLOT_MAX_SPEED) * WIDTH;
+  const y = (mu: number) => HEIGHT - (mu / muMax) * HEIGHT;
+  const path = speeds.map((v, i) => `${i === 0 ? 'M' : 'L'}${x(v).toFixed(1)},${y(mus[i]).toFixed(1)}`).join(' ');
+
+  return (
+    <div className="flex flex-col items-center">
+      <span className="text-[9px] font-bold text-slate-500 uppercase tracking-wide truncate max-w-full" title={label}>μ(v) · {label}</span>
+      <svg width={WIDTH} height={HEIGHT} className="overflow-visible mt-1 border-l border-b border-slate-300">
+        <line x1="0" x2={WIDTH} y1={y(surface.staticFrictionCoeff)} y2={y(surface.staticFrictionCoeff)} stroke="#94a3b8" strokeWidth="1" strokeDasharray="2 2" />
+        <path d={path} fill="none" stroke="#f43f5e" strokeWidth="1.5" />
+        {velocity > 0 && <circle cx={x(velocity)} cy={y(muAt(velocity))} r="2.5" fill="#4f46e5" />}
+      </svg>
+      <div className="flex justify-between w-full text-[8px] font-mono text-slate-400 mt-0.5">
+        <span>0</span>
+        <span>{FRICTION_PLOT_MAX_SPEED} m/s</span>
+      </div>
+    </div>
+  );
+};
+
+export default FrictionCurve;
@@ -0,0 +1,41 @@
+import React from 'react';
+
+interface HangingMassProps {
+  blockLeftPercent: number; // where the block's centre is drawn along the track layer
+  pulleyLeftPercent: number;
+  progress: number; // 0-1 of the race, the hanging mass drops as the block advances
+  rampAngle: number; // degrees the track layer is rotated by
+  hangingMass: number; // kg
+}
+
+const BLOCK_HALF_WIDTH = 32; // px, half of the block character
+const MIN_DROP = 12; // px of string below the pulley at the start
+const MAX_EXTRA_DROP = 36; // px more by the finish
+
+// String from the block over a pulley at the end of the track, with the mass
+// hanging straight down even when the track is tilted
+const HangingMass: React.FC<HangingMassProps> = ({ blockLeftPercent, pulleyLeftPercent, progress, rampAngle, hangingMass }) => {
+  const drop = MIN_DROP + progress * MAX_EXTRA_DROP;
+  return (
+    <>
+      <div
+        className="absolute top-1/2 h-px bg-slate-600 z-10"
+        style={{ left: `calc(${blockLeftPercent}% + ${BLOCK_HALF_WIDTH}px)`, width: `calc(${pulleyLeftPercent - blockLeftPercent}% - ${BLOCK_HALF_WIDTH}px)` }}
+      ></div>
+      <div
+        className="absolute top-1/2 w-5 h-5 -translate-x-1/2 rounded-full border-2 border-slate-600 bg-slate-200 z-10"
+        style={{ left: `${pulleyLeftPercent}%` }}
+        title="Frictionless pulley"
+      ></div>
+      <div
+        className="absolute flex flex-col items-center z-10"
+        style={{ left: `calc(${pulleyLeftPercent}% + 10px)`, top: 'calc(50% + 10px)', transform: `translateX(-50%) rotate(${-rampAngle}deg)`, transformOrigin: 'top center' }}
+      >
+        <div className="w-px bg-slate-600" style={{ height: `${drop}px` }}></div>
+        <div className="px-1.5 py-1 rounded bg-slate-700 text-[9px] font-bold text-white whitespace-nowrap shadow-sm">{hangingMass} kg</div>
+      </div>
+    </>
+  );
+};
+
+export default HangingMass;
@@ -0,0 +1,155 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { SimulationParams, SurfaceConfig, SolverTarget, SolverVariable, SolverSolution, SolverRequest } from '../types';
+import { SOLVER_TARGETS, SOLVER_VARIABLES, getSolverVariables, validateSolverGoal, formatSolverValue, SolverMessage } from '../services/inverseSolver';
+import { getSurfaceColor } from '../services/surfaceLibrary';
+import { Crosshair, Check, Square } from 'lucide-react';
+
+interface InverseSolverProps {
+  params: SimulationParams;
+  surfaces: SurfaceConfig[];
+  disabled: boolean;
+  onApply: (solution: SolverSolution) => void;
+}
+
+const selectClass = "px-1.5 py-1 bg-white border border-slate-300 rounded text-slate-700 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none disabled:bg-slate-50";
+
+// "How hard do I push to finish in 20 s?" - runs the engine backwards, one answer per track
+const InverseSolver: React.FC<InverseSolverProps> = ({ params, surfaces, disabled, onApply }) => {
+  const [target, setTarget] = useState<SolverTarget>('finishTime');
+  const [goal, setGoal] = useState(20);
+  const [variable, setVariable] = useState<SolverVariable>('appliedForce');
+  const [solutions, setSolutions] = useState<SolverSolution[]>([]);
+  const [progress, setProgress] = useState<number | null>(null); // 0..1 while solving
+  const workerRef = useRef<Worker | null>(null);
+
+  // Don't leave a solve running after the panel goes away
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const variables = getSolverVariables(params);
+  // The force mode may have changed under us; fall back to whatever still applies
+  const activeVariable = variables.includes(variable) ? variable : variables[0];
+  const errors = validateSolverGoal(target, goal, params);
+  const multiBody = params.stack.enabled || params.collision.enabled;
+  const solving = progress !== null;
+
+  const stop = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setProgress(null);
+  };
+
+  // Each surface takes dozens of full runs, so the search happens in a worker
+  const handleSolve = () => {
+    stop();
+    setSolutions([]);
+    const worker = new Worker(new URL('../services/solverWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<SolverMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        setProgress(message.done / message.total);
+      } else {
+        setSolutions(message.solutions);
+        stop();
+      }
+    };
+    worker.onerror = () => stop();
+    workerRef.current = worker;
+    setProgress(0);
+    const request: SolverRequest = { target, goal, variable: activeVariable, params, surfaces };
+    worker.postMessage(request);
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-100">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wide whitespace-nowrap flex items-center gap-1">
+          <Crosshair size={12} /> Solve for:
+        </span>
+        <select
+          value={target}
+          onChange={(e) => { setTarget(e.target.value as SolverTarget); setSolutions([]); }}
+          disabled={disabled || solving}
+          className={selectClass}
+        >
+          {(Object.keys(SOLVER_TARGETS) as SolverTarget[]).map(key => (
+            <option key={key} value={key}>{SOLVER_TARGETS[key].label}</option>
+          ))}
+        </select>
+        <span className="text-xs text-slate-500">=</span>
+        <input
+          type="number"
+          min="0"
+          step="1"
+          value={Number.isNaN(goal) ? '' : goal}
+          onChange={(e) => { setGoal(parseFloat(e.target.value)); setSolutions([]); }}
+          disabled={disabled || solving}
+          className="w-16 px-1.5 py-1 bg-white border border-slate-300 rounded text-right text-slate-700 font-mono text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+        />
+        <span className="text-xs text-slate-500">{SOLVER_TARGETS[target].unit}</span>
+        <span className="text-xs text-slate-500 ml-2">by changing</span>
+        <select
+          value={activeVariable}
+          onChange={(e) => { setVariable(e.target.value as SolverVariable); setSolutions([]); }}
+          disabled={disabled || solving}
+          className={selectClass}
+        >
+          {variables.map(key => (
+            <option key={key} value={key}>{SOLVER_VARIABLES[key].label}</option>
+          ))}
+        </select>
+        {solving ? (
+          <button
+            onClick={stop}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium border bg-white border-slate-200 text-slate-600 hover:bg-slate-50 transition-colors"
+          >
+            <Square size={12} /> Stop ({(progress * 100).toFixed(0)}%)
+          </button>
+        ) : (
+          <button
+            onClick={handleSolve}
+            disabled={disabled || errors.length > 0 || multiBody}
+            title={errors[0]}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium border bg-white border-slate-200 text-slate-600 hover:bg-slate-50 transition-colors disabled:opacity-50"
+          >
+            <Crosshair size={14} /> Solve
+          </button>
+        )}
+        {errors.length > 0 && <span className="text-[10px] text-rose-600">{errors[0]}</span>}
+        {multiBody && <span className="text-[10px] text-slate-400">Single block only: turn off stacking and collisions.</span>}
+      </div>
+
+      {solutions.length > 0 && (
+        <ul className="mt-3 space-y-1.5">
+          {solutions.map(solution => {
+            const surface = surfaces.find(s => s.id === solution.surfaceId);
+            if (!surface) return null;
+            return (
+              <li key={solution.surfaceId} className="flex flex-wrap items-center gap-2 text-xs">
+                <span className={`inline-block w-2 h-2 rounded-full ${getSurfaceColor(surface.color).indicator}`}></span>
+                <span className="font-medium text-slate-700 w-24 truncate">{surface.name}</span>
+                {solution.value !== null && (
+                  <span className={`font-mono font-bold ${solution.exact ? 'text-indigo-600' : 'text-amber-600'}`}>
+                    {formatSolverValue(solution.variable, solution.value)}
+                  </span>
+                )}
+                <span className="text-slate-500 flex-1 min-w-[200px]">{solution.explanation}</span>
+                {solution.value !== null && (
+                  <button
+                    onClick={() => onApply(solution)}
+                    disabled={disabled}
+                    title={solution.variable === 'kineticFrictionCoeff' ? `Set ${surface.name}'s μk` : 'Write this value into the controls'}
+                    className="flex items-center gap-1 px-2 py-0.5 rounded text-[11px] font-medium border bg-white border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-50"
+                  >
+                    <Check size={10} /> Apply
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default InverseSolver;
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { MaterialPair } from '../types';
+import { MATERIAL_PAIRS } from '../materials';
+import { Search, BookMarked } from 'lucide-react';
+
+interface MaterialPickerProps {
+  onPick: (pair: MaterialPair) => void;
+}
+
+const MaterialPicker: React.FC<MaterialPickerProps> = ({ onPick }) => {
+  const [query, setQuery] = useState('');
+
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const matches = MATERIAL_PAIRS.filter(pair => {
+    const haystack = `${pair.name} ${pair.description}`.toLowerCase();
+    return terms.every(t => haystack.includes(t));
+  });
+
+  return (
+    <div className="border border-slate-200 bg-white rounded-lg">
+      <div className="flex items-center gap-2 px-2 py-1.5 border-b border-slate-100">
+        <Search size={14} className="text-slate-400" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search materials, e.g. rubber wet"
+          className="flex-1 text-sm text-slate-700 outline-none"
+        />
+        <span className="text-[10px] text-slate-400 flex items-center gap-1"><BookMarked size={12} /> {matches.length}</span>
+      </div>
+      <ul className="max-h-48 overflow-y-auto divide-y divide-slate-50">
+        {matches.map(pair => (
+          <li key={pair.id}>
+            <button
+              onClick={() => onPick(pair)}
+              className="w-full text-left px-3 py-1.5 hover:bg-indigo-50 transition-colors"
+              title={pair.source}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium text-slate-700 truncate">{pair.name}</span>
+                <span className="text-[11px] font-mono text-indigo-600 whitespace-nowrap">
+                  μs {pair.staticFrictionCoeff} / μk {pair.kineticFrictionCoeff}
+                </span>
+              </div>
+              <div className="text-[10px] text-slate-400 truncate">{pair.description} · {pair.source}</div>
+            </button>
+          </li>
+        ))}
+        {matches.length === 0 && (
+          <li className="px-3 py-2 text-xs text-slate-400 italic">No material pairs match "{query}".</li>
+        )}
+      </ul>
+    </div>
+  );
+};
+
+export default MaterialPicker;
@@ -0,0 +1,85 @@
+import React from 'react';
+import { PLAYBACK_SPEEDS } from '../constants';
+import { Play, Pause, StepBack, StepForward } from 'lucide-react';
+
+interface PlaybackControlsProps {
+  frameCount: number;
+  frameIndex: number;
+  time: number; // recorded sim time of the current frame (s)
+  endTime: number; // recorded sim time of the last frame (s)
+  isPlaying: boolean;
+  speed: number; // sim seconds per real second
+  onPlayPause: () => void;
+  onStep: (delta: number) => void;
+  onSeek: (index: number) => void;
+  onSpeedChange: (speed: number) => void;
+}
+
+const buttonClass = "p-1.5 rounded-lg border bg-white border-slate-200 text-slate-600 hover:bg-slate-50 transition-colors disabled:opacity-40";
+
+// Replay bar for a solved run: every frame is already computed, so any instant can be shown
+const PlaybackControls: React.FC<PlaybackControlsProps> = ({
+  frameCount,
+  frameIndex,
+  time,
+  endTime,
+  isPlaying,
+  speed,
+  onPlayPause,
+  onStep,
+  onSeek,
+  onSpeedChange
+}) => {
+  const lastFrame = frameCount - 1;
+
+  return (
+    <div className="bg-white px-4 py-3 rounded-xl shadow-sm border border-slate-200 flex flex-wrap items-center gap-3">
+      <div className="flex items-center gap-1">
+        <button onClick={() => onStep(-1)} disabled={frameIndex === 0} title="Back one frame" className={buttonClass}>
+          <StepBack size={14} />
+        </button>
+        <button
+          onClick={onPlayPause}
+          title={isPlaying ? 'Pause' : frameIndex === lastFrame ? 'Replay from the start' : 'Play'}
+          className="p-1.5 rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 transition-colors"
+        >
+          {isPlaying ? <Pause size={14} fill="currentColor" /> : <Play size={14} fill="currentColor" />}
+        </button>
+        <button onClick={() => onStep(1)} disabled={frameIndex === lastFrame} title="Forward one frame" className={buttonClass}>
+          <StepForward size={14} />
+        </button>
+      </div>
+
+      <input
+        type="range"
+        min="0"
+        max={lastFrame}
+        step="1"
+        value={frameIndex}
+        onChange={(e) => onSeek(parseInt(e.target.value, 10))}
+        aria-label="Timeline"
+        className="flex-1 min-w-[160px] h-1.5 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+      />
+
+      <span className="text-xs font-mono text-slate-700 whitespace-nowrap" title={`Frame ${frameIndex} of ${lastFrame}`}>
+        t = {time.toFixed(3)} s
+        <span className="text-slate-400"> / {endTime.toFixed(2)} s</span>
+      </span>
+
+      <label className="flex items-center gap-1 text-[10px] font-bold text-slate-500 uppercase tracking-wide">
+        Speed
+        <select
+          value={speed}
+          onChange={(e) => onSpeedChange(parseFloat(e.target.value))}
+          className="px-1.5 py-0.5 bg-white border border-slate-300 rounded text-slate-700 text-xs font-mono focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+        >
+          {PLAYBACK_SPEEDS.map(s => (
+            <option key={s} value={s}>{s}×{s === 1 ? ' (real time)' : ''}</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default PlaybackControls;
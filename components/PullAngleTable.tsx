@@ -0,0 +1,58 @@
+import React from 'react';
+import { SimulationResult } from '../types';
+import { MoveUpRight } from 'lucide-react';
+
+interface PullAngleTableProps {
+  results: SimulationResult[];
+  forceAngle: number; // degrees, the angle used for this run
+}
+
+const formatForce = (f: number) => (Number.isFinite(f) ? `${f.toFixed(1)} N` : 'never');
+
+const PullAngleTable: React.FC<PullAngleTableProps> = ({ results, forceAngle }) => {
+  if (results.length === 0) return null;
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 mb-8">
+      <h3 className="text-lg font-semibold text-slate-800 mb-1 flex items-center gap-2">
+        <MoveUpRight size={20} className="text-indigo-500" /> Best Pull Angle
+      </h3>
+      <p className="text-xs text-slate-500 mb-4">
+        Pulling upward at φ = atan(μs) lightens the block just enough that the smallest force starts it sliding.
+      </p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-[10px] text-slate-400 uppercase tracking-wider border-b border-slate-100">
+              <th className="px-3 py-2 text-left">Surface</th>
+              <th className="px-3 py-2 text-right">Force to Start at {forceAngle}°</th>
+              <th className="px-3 py-2 text-right">Optimal Angle</th>
+              <th className="px-3 py-2 text-right">Force to Start at Optimum</th>
+              <th className="px-3 py-2 text-right">Saving</th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.map(r => (
+              <tr key={r.surfaceId} className="border-b border-slate-50">
+                <td className="px-3 py-2 font-medium text-slate-700 whitespace-nowrap">
+                  {r.surface}
+                  {r.liftedOff && <span className="ml-1 text-[9px] font-bold uppercase text-amber-600">lifted off</span>}
+                </td>
+                <td className="px-3 py-2 font-mono text-slate-700 text-right">{formatForce(r.breakawayForce)}</td>
+                <td className="px-3 py-2 font-mono text-indigo-600 font-bold text-right">{r.optimalForceAngle.toFixed(1)}°</td>
+                <td className="px-3 py-2 font-mono text-slate-700 text-right">{formatForce(r.minBreakawayForce)}</td>
+                <td className="px-3 py-2 font-mono text-emerald-600 text-right">
+                  {Number.isFinite(r.breakawayForce) && r.breakawayForce > 0
+                    ? `${(100 * (1 - r.minBreakawayForce / r.breakawayForce)).toFixed(1)}%`
+                    : '—'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default PullAngleTable;
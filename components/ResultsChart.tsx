@@ -1,19 +1,127 @@
 import React from 'react';
-import { SimulationResult } from '../types';
+import { SimulationResult, RunRecord } from '../types';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { Timer, Gauge } from 'lucide-react';
+import { Timer, Gauge, Zap, Weight, Flame, Ruler } from 'lucide-react';
 
 interface ResultsChartProps {
   results: SimulationResult[];
+  compare?: RunRecord[]; // two or more: bars grouped by surface, one per run, instead of `results`
 }
 
-const ResultsChart: React.FC<ResultsChartProps> = ({ results }) => {
+const RUN_COLORS = ['#6366f1', '#10b981', '#f59e0b', '#f43f5e', '#0ea5e9', '#8b5cf6'];
+
+// Why a surface has no finish time, or null if it has one
+const getOutcomeNote = (r: SimulationResult): string | null => {
+  if (r.completed) return null;
+  if (r.liftedOff) return 'lifted off';
+  if (r.status === 'slid-off') return `top block slid off at ${r.stopPosition.toFixed(1)} m`;
+  if (!r.didMove) return "didn't move";
+  return `stopped at ${r.stopPosition.toFixed(1)} m`;
+};
+
+interface ComparisonChartProps {
+  title: string;
+  icon: React.ReactNode;
+  runs: RunRecord[];
+  value: (r: SimulationResult) => number | null;
+  note: string;
+}
+
+// One group per surface name, one bar per run, so the changed variable's effect lines up
+const ComparisonChart: React.FC<ComparisonChartProps> = ({ title, icon, runs, value, note }) => {
+  const names = [...new Set(runs.flatMap(run => run.results.map(r => r.surface)))];
+  const chartData = names.map(name => ({
+    name,
+    ...Object.fromEntries(runs.map((run, i) => {
+      const result = run.results.find(r => r.surface === name);
+      const v = result ? value(result) : null;
+      return [`run${i}`, v !== null ? Number(v.toFixed(2)) : null];
+    }))
+  }));
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+      <h3 className="text-lg font-semibold text-slate-800 mb-4 flex items-center gap-2">
+        {icon} {title}
+      </h3>
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chartData} layout="vertical" margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" horizontal={true} vertical={true} />
+            <XAxis type="number" />
+            <YAxis dataKey="name" type="category" width={80} />
+            <Tooltip 
+              cursor={{fill: '#f1f5f9'}} 
+              contentStyle={{borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)'}}
+            />
+            <Legend />
+            {runs.map((run, i) => (
+              <Bar key={run.id} dataKey={`run${i}`} name={run.label} fill={RUN_COLORS[i % RUN_COLORS.length]} radius={[0, 4, 4, 0]} barSize={10} />
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+      <p className="text-xs text-slate-500 mt-2 text-center italic">{note}</p>
+    </div>
+  );
+};
+
+const ResultsChart: React.FC<ResultsChartProps> = ({ results, compare }) => {
+  if (compare && compare.length > 1) {
+    return (
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+        <ComparisonChart
+          title="Finish Time (s)"
+          icon={<Timer size={20} className="text-indigo-500" />}
+          runs={compare}
+          value={r => (r.completed ? r.finalTime : null)}
+          note="*Lower is faster. A run that never crossed the line has no bar."
+        />
+        <ComparisonChart
+          title="Max Velocity (m/s)"
+          icon={<Gauge size={20} className="text-emerald-500" />}
+          runs={compare}
+          value={r => (r.didMove ? r.maxVelocity : 0)}
+          note="*Higher is faster."
+        />
+        <ComparisonChart
+          title="Stop Position (m)"
+          icon={<Ruler size={20} className="text-amber-500" />}
+          runs={compare}
+          value={r => r.stopPosition}
+          note="*The track length for a run that finished."
+        />
+        <ComparisonChart
+          title="Heat from Friction (J)"
+          icon={<Flame size={20} className="text-rose-500" />}
+          runs={compare}
+          value={r => r.energy.workFriction}
+          note="*Energy friction turned into heat over the whole run."
+        />
+      </div>
+    );
+  }
+
   const chartData = results.map(r => ({
     name: r.surface,
-    time: r.didMove ? (r.finalTime === Infinity ? 0 : Number(r.finalTime.toFixed(2))) : 0,
+    // No bar at all when it never got there, so "didn't finish" can't read as a time of 0
+    time: r.completed ? Number(r.finalTime.toFixed(2)) : null,
+    exactTime: r.analytic.events.finishCrossing !== null ? Number(r.analytic.events.finishCrossing.toFixed(2)) : null,
     velocity: r.didMove ? Number(r.maxVelocity.toFixed(2)) : 0,
-    staticLimit: Number(r.staticFrictionLimit.toFixed(1))
+    exactVelocity: Number(r.analytic.maxVelocity.toFixed(2)),
+    staticLimit: Number(r.staticFrictionLimit.toFixed(1)),
+    workApplied: Number(r.energy.workApplied.toFixed(1)),
+    workGravity: Number(r.energy.workGravity.toFixed(1)),
+    kineticEnergy: Number(r.energy.kineticEnergy.toFixed(1)),
+    heat: Number(r.energy.workFriction.toFixed(1)),
+    drag: Number(r.energy.workDrag.toFixed(1)),
+    collision: Number(r.energy.workCollision.toFixed(1)),
+    tension: r.tension !== null ? Number(r.tension.toFixed(1)) : null,
+    hangingWeight: Number(r.appliedForce.toFixed(1))
   }));
+  const hasTension = results.some(r => r.tension !== null);
+  const hasDrag = results.some(r => r.energy.workDrag > 0);
+  const hasCollision = results.some(r => r.collision !== undefined);
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
@@ -34,11 +142,19 @@ const ResultsChart: React.FC<ResultsChartProps> = ({ results }) => {
                 contentStyle={{borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)'}}
               />
               <Legend />
-              <Bar dataKey="time" name="Time (s)" fill="#6366f1" radius={[0, 4, 4, 0]} barSize={30} />
+              <Bar dataKey="time" name="Time (s)" fill="#6366f1" radius={[0, 4, 4, 0]} barSize={15} />
+              <Bar dataKey="exactTime" name="Exact (s)" fill="#c7d2fe" radius={[0, 4, 4, 0]} barSize={15} />
             </BarChart>
           </ResponsiveContainer>
         </div>
-        <p className="text-xs text-slate-500 mt-2 text-center italic">*Lower is faster. 0 means it did not finish or start.</p>
+        <div className="flex flex-wrap justify-center gap-4 mt-2">
+          {results.filter(r => !r.completed).map(r => (
+            <span key={r.surfaceId} className="text-xs font-mono text-amber-600">
+              {r.surface}: {getOutcomeNote(r)}
+            </span>
+          ))}
+        </div>
+        <p className="text-xs text-slate-500 mt-2 text-center italic">*Lower is faster. Surfaces that never crossed the line have no bar.</p>
       </div>
 
       {/* Max Velocity Chart */}
@@ -57,13 +173,75 @@ const ResultsChart: React.FC<ResultsChartProps> = ({ results }) => {
                 contentStyle={{borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)'}}
               />
               <Legend />
-              <Bar dataKey="velocity" name="Max Speed (m/s)" fill="#10b981" radius={[0, 4, 4, 0]} barSize={30} />
+              <Bar dataKey="velocity" name="Max Speed (m/s)" fill="#10b981" radius={[0, 4, 4, 0]} barSize={15} />
+              <Bar dataKey="exactVelocity" name="Exact (m/s)" fill="#a7f3d0" radius={[0, 4, 4, 0]} barSize={15} />
             </BarChart>
           </ResponsiveContainer>
         </div>
          <p className="text-xs text-slate-500 mt-2 text-center italic">*Higher is faster.</p>
       </div>
 
+      {/* Tension Chart */}
+      {hasTension && (
+        <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 lg:col-span-2">
+          <h3 className="text-lg font-semibold text-slate-800 mb-4 flex items-center gap-2">
+            <Weight size={20} className="text-green-600" /> String Tension (N)
+          </h3>
+          <div className="h-48">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData} layout="vertical" margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" horizontal={true} vertical={true} />
+                <XAxis type="number" />
+                <YAxis dataKey="name" type="category" width={80} />
+                <Tooltip 
+                  cursor={{fill: '#f1f5f9'}} 
+                  contentStyle={{borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)'}}
+                />
+                <Legend />
+                <Bar dataKey="tension" name="Tension T" fill="#22c55e" radius={[0, 4, 4, 0]} barSize={15} />
+                <Bar dataKey="hangingWeight" name="Hanging Weight mₕg" fill="#bbf7d0" radius={[0, 4, 4, 0]} barSize={15} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          <p className="text-xs text-slate-500 mt-2 text-center italic">*While the block slides, T = mₕ(g − a) is less than the hanging weight; a block that never moves feels the full mₕg.</p>
+        </div>
+      )}
+
+      {/* Energy Budget Chart */}
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 lg:col-span-2">
+        <h3 className="text-lg font-semibold text-slate-800 mb-4 flex items-center gap-2">
+          <Zap size={20} className="text-amber-500" /> Energy Budget (J)
+        </h3>
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData} layout="vertical" margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" horizontal={true} vertical={true} />
+              <XAxis type="number" />
+              <YAxis dataKey="name" type="category" width={80} />
+              <Tooltip 
+                cursor={{fill: '#f1f5f9'}} 
+                contentStyle={{borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)'}}
+              />
+              <Legend />
+              <Bar dataKey="workApplied" name="Work by Push" stackId="input" fill="#6366f1" barSize={15} />
+              <Bar dataKey="workGravity" name="Work by Gravity" stackId="input" fill="#a5b4fc" radius={[0, 4, 4, 0]} barSize={15} />
+              <Bar dataKey="kineticEnergy" name="Kinetic Energy" stackId="energy" fill="#10b981" barSize={15} />
+              <Bar dataKey="heat" name="Heat (Friction)" stackId="energy" fill="#f43f5e" radius={hasDrag || hasCollision ? undefined : [0, 4, 4, 0]} barSize={15} />
+              {hasDrag && <Bar dataKey="drag" name="Air Drag" stackId="energy" fill="#38bdf8" radius={hasCollision ? undefined : [0, 4, 4, 0]} barSize={15} />}
+              {hasCollision && <Bar dataKey="collision" name="Collision Loss" stackId="energy" fill="#f59e0b" radius={[0, 4, 4, 0]} barSize={15} />}
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="flex flex-wrap justify-center gap-4 mt-2">
+          {results.map(r => (
+            <span key={r.surfaceId} className={`text-xs font-mono ${r.energy.balanced ? 'text-slate-500' : 'text-rose-600 font-bold'}`}>
+              {r.surface}: W − Heat{hasDrag ? ' − Drag' : ''}{hasCollision ? ' − Impacts' : ''} − ΔKE = {r.energy.residual.toFixed(2)} J {r.energy.balanced ? '✓' : '✗'}
+            </span>
+          ))}
+        </div>
+        <p className="text-xs text-slate-500 mt-2 text-center italic">*Work-energy theorem: the work done by the push (and gravity on a ramp) ends up as kinetic energy, heat{hasDrag ? `, ${hasCollision ? '' : 'or '}work against the air` : ''}{hasCollision ? ', or energy lost in impacts' : ''}.</p>
+      </div>
+
     </div>
   );
 };
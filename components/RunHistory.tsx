@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { RunRecord } from '../types';
+import { diffRuns } from '../services/runHistory';
+import ResultsChart from './ResultsChart';
+import { History, Trash2, GitCompare } from 'lucide-react';
+
+interface RunHistoryProps {
+  runs: RunRecord[]; // newest first
+  onChange: (runs: RunRecord[]) => void;
+}
+
+const inputClass = "px-1.5 py-0.5 bg-white border border-slate-300 rounded text-slate-700 text-xs focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none";
+
+// Every finished run, with labels and notes; tick two or more to compare them
+const RunHistory: React.FC<RunHistoryProps> = ({ runs, onChange }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  if (runs.length === 0) return null;
+
+  // Oldest first in the comparison, so the bars read in the order the runs were made
+  const selected = runs.filter(run => selectedIds.includes(run.id)).reverse();
+  const diffs = selected.length > 1 ? diffRuns(selected) : [];
+
+  const updateRun = (id: string, patch: Partial<RunRecord>) =>
+    onChange(runs.map(run => (run.id === id ? { ...run, ...patch } : run)));
+
+  const removeRun = (id: string) => {
+    setSelectedIds(prev => prev.filter(s => s !== id));
+    onChange(runs.filter(run => run.id !== id));
+  };
+
+  const toggleSelected = (id: string) =>
+    setSelectedIds(prev => (prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]));
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 mb-8">
+      <h3 className="text-lg font-semibold text-slate-800 mb-1 flex items-center gap-2">
+        <History size={20} className="text-indigo-500" /> Run History
+      </h3>
+      <p className="text-xs text-slate-500 mb-4">
+        Every finished run is kept in this browser. Change one variable, run again, then tick both runs to compare them.
+      </p>
+
+      <ul className="divide-y divide-slate-100 mb-2">
+        {runs.map(run => (
+          <li key={run.id} className="py-2 flex flex-wrap items-start gap-2">
+            <input
+              type="checkbox"
+              checked={selectedIds.includes(run.id)}
+              onChange={() => toggleSelected(run.id)}
+              className="accent-indigo-600 mt-1.5"
+              title="Compare this run"
+            />
+            <div className="flex-1 min-w-[200px] space-y-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="text"
+                  value={run.label}
+                  onChange={(e) => updateRun(run.id, { label: e.target.value })}
+                  className={`${inputClass} font-medium w-40`}
+                  aria-label="Run label"
+                />
+                <span className="text-[10px] text-slate-400 font-mono">{new Date(run.createdAt).toLocaleString()}</span>
+                <span className="text-[10px] text-slate-500">
+                  {run.params.mass} kg · {run.params.appliedForce} N · {run.params.forceMode} · {run.surfaces.map(s => s.name).join(', ')}
+                </span>
+              </div>
+              <input
+                type="text"
+                value={run.notes}
+                onChange={(e) => updateRun(run.id, { notes: e.target.value })}
+                placeholder="Notes"
+                className={`${inputClass} w-full text-slate-600`}
+                aria-label="Run notes"
+              />
+            </div>
+            <button
+              onClick={() => removeRun(run.id)}
+              title="Delete this run"
+              className="p-0.5 mt-1 text-slate-400 hover:text-rose-600"
+            >
+              <Trash2 size={12} />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {selected.length === 1 && <p className="text-[10px] text-slate-400">Tick at least one more run to compare.</p>}
+
+      {selected.length > 1 && (
+        <div className="mt-4 animate-in fade-in">
+          <h4 className="text-sm font-semibold text-slate-700 mb-3 flex items-center gap-2">
+            <GitCompare size={16} className="text-indigo-500" /> Comparing {selected.length} runs
+          </h4>
+          <ResultsChart results={[]} compare={selected} />
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-[10px] text-slate-400 uppercase tracking-wider border-b border-slate-100">
+                  <th className="px-3 py-2 text-left">Setting</th>
+                  {selected.map(run => <th key={run.id} className="px-3 py-2 text-right">{run.label}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {diffs.map(diff => (
+                  <tr key={diff.setting} className="border-b border-slate-50">
+                    <td className="px-3 py-2 font-medium text-slate-700 whitespace-nowrap">{diff.setting}</td>
+                    {diff.values.map((value, i) => (
+                      <td key={i} className="px-3 py-2 font-mono text-slate-700 text-right max-w-[200px] truncate" title={value}>{value}</td>
+                    ))}
+                  </tr>
+                ))}
+                {diffs.length === 0 && (
+                  <tr>
+                    <td colSpan={selected.length + 1} className="px-3 py-2 text-slate-400 italic">Same settings in every run.</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RunHistory;
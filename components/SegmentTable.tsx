@@ -0,0 +1,56 @@
+import React from 'react';
+import { SimulationResult } from '../types';
+import { getSurfaceColor } from '../services/surfaceLibrary';
+import { Route } from 'lucide-react';
+
+interface SegmentTableProps {
+  results: SimulationResult[];
+}
+
+// Per-stretch breakdown for patched tracks: where the time went and where the energy turned into heat
+const SegmentTable: React.FC<SegmentTableProps> = ({ results }) => {
+  const patched = results.filter(r => r.segments);
+  if (patched.length === 0) return null;
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 mb-8">
+      <h3 className="text-lg font-semibold text-slate-800 mb-1 flex items-center gap-2">
+        <Route size={20} className="text-indigo-500" /> Track Segments
+      </h3>
+      <p className="text-xs text-slate-500 mb-4">
+        Friction changes at every boundary. Each step is booked to the stretch it happened on, so a block that stops short spends its last seconds on the patch that stopped it.
+      </p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-[10px] text-slate-400 uppercase tracking-wider border-b border-slate-100">
+              <th className="px-3 py-2 text-left">Surface</th>
+              <th className="px-3 py-2 text-left">Segment</th>
+              <th className="px-3 py-2 text-right">Entry Speed</th>
+              <th className="px-3 py-2 text-right">Time Spent</th>
+              <th className="px-3 py-2 text-right">Push Work</th>
+              <th className="px-3 py-2 text-right">Heat</th>
+            </tr>
+          </thead>
+          <tbody>
+            {patched.map(r => r.segments!.map((segment, i) => (
+              <tr key={`${r.surfaceId}-${segment.start}`} className={`border-b ${i === r.segments!.length - 1 ? 'border-slate-100' : 'border-slate-50'} ${segment.reached ? '' : 'opacity-40'}`}>
+                <td className="px-3 py-2 font-medium text-slate-700 whitespace-nowrap">{i === 0 ? r.surface : ''}</td>
+                <td className="px-3 py-2 text-slate-700 whitespace-nowrap">
+                  <span className={`inline-block w-2 h-2 rounded-full mr-1.5 ${getSurfaceColor(segment.color).indicator}`}></span>
+                  {segment.name} <span className="font-mono text-slate-400">{segment.start}–{segment.end} m</span>
+                </td>
+                <td className="px-3 py-2 font-mono text-slate-700 text-right">{segment.entrySpeed !== null ? `${segment.entrySpeed.toFixed(2)} m/s` : 'never reached'}</td>
+                <td className="px-3 py-2 font-mono text-slate-700 text-right">{segment.timeSpent.toFixed(2)} s</td>
+                <td className="px-3 py-2 font-mono text-slate-700 text-right">{segment.workApplied.toFixed(0)} J</td>
+                <td className="px-3 py-2 font-mono text-rose-500 font-bold text-right">{segment.heat.toFixed(0)} J</td>
+              </tr>
+            )))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default SegmentTable;
@@ -0,0 +1,101 @@
+import React from 'react';
+import { SimulationParams, SimulationState, StackState, SurfaceConfig } from '../types';
+import { getStackNormals } from '../services/stackedBlocks';
+import { getPushAlong } from '../services/forces';
+import { GRAVITY } from '../constants';
+
+interface StackedBlocksProps {
+  surface: SurfaceConfig;
+  state: SimulationState;
+  top: StackState;
+  params: SimulationParams;
+  showForceValues?: boolean;
+}
+
+const BOTTOM_WIDTH = 96; // px, the drawn length of block A
+const TOP_WIDTH = 52;
+
+// Same log scale as the single-block diagram so arrows stay readable at any force
+const scaled = (f: number) => (f === 0 ? 0 : Math.log10(Math.abs(f) + 1) * 12);
+
+interface ArrowProps {
+  x: number;
+  y: number;
+  dx: number;
+  dy: number;
+  color: string;
+  label: string;
+  value?: number;
+  dashed?: boolean;
+  showValue?: boolean;
+}
+
+const Arrow: React.FC<ArrowProps> = ({ x, y, dx, dy, color, label, value, dashed, showValue }) => {
+  if (dx === 0 && dy === 0) return null;
+  return (
+    <g>
+      <line x1={x} y1={y} x2={x + dx} y2={y + dy} stroke={color} strokeWidth="2" strokeDasharray={dashed ? '3 2' : undefined} markerEnd={`url(#stack-arrow-${color.slice(1)})`} />
+      <text x={x + dx + (dx < 0 ? -3 : 3)} y={y + dy + (dy > 0 ? 9 : dy < 0 ? -2 : 3)} fontSize="8" fill={color} textAnchor={dx < 0 ? 'end' : 'start'} className="font-mono">
+        {label}{showValue && value !== undefined ? `=${Math.abs(value).toFixed(1)}N` : ''}
+      </text>
+    </g>
+  );
+};
+
+const COLORS = ['#22c55e', '#ef4444', '#94a3b8'];
+
+// Block B riding on block A, each drawn with its own free-body diagram
+const StackedBlocks: React.FC<StackedBlocksProps> = ({ surface, state, top, params, showForceValues }) => {
+  const push = state.currentAppliedForce;
+  const pushAlong = getPushAlong(params, push);
+  const normals = getStackNormals(surface, params, push);
+  const weightTop = params.stack.topMass * GRAVITY;
+  const weightBottom = params.mass * GRAVITY;
+
+  // How far B has slipped along A, drawn to scale and stopped at A's ends
+  const slip = top.position - state.position;
+  const maxOffset = BOTTOM_WIDTH / 2;
+  const offset = Math.max(-maxOffset, Math.min(maxOffset, (slip / params.stack.bottomLength) * BOTTOM_WIDTH));
+
+  const cx = 150;
+  const bottomY = 110; // centre of A
+  const topY = 82; // centre of B
+  const topX = cx + offset;
+
+  return (
+    <div className="relative w-[300px] h-[200px] pointer-events-none">
+      <svg width="300" height="200" viewBox="0 0 300 200" className="overflow-visible">
+        <defs>
+          {COLORS.map(color => (
+            <marker key={color} id={`stack-arrow-${color.slice(1)}`} markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
+              <path d="M0,0 L0,6 L6,3 z" fill={color} />
+            </marker>
+          ))}
+        </defs>
+
+        {/* Block A */}
+        <rect x={cx - BOTTOM_WIDTH / 2} y={bottomY - 14} width={BOTTOM_WIDTH} height="28" rx="4" className="fill-violet-500 stroke-violet-700" strokeWidth="2" />
+        <text x={cx - BOTTOM_WIDTH / 2 + 4} y={bottomY + 10} fontSize="9" fill="white" className="font-bold">A {params.mass}kg</text>
+
+        {/* Block B */}
+        <rect x={topX - TOP_WIDTH / 2} y={topY - 14} width={TOP_WIDTH} height="28" rx="4" className={top.slipping ? 'fill-amber-400 stroke-amber-600' : 'fill-indigo-400 stroke-indigo-600'} strokeWidth="2" />
+        <text x={topX} y={topY + 3} fontSize="9" fill="white" textAnchor="middle" className="font-bold">B {params.stack.topMass}kg</text>
+
+        {/* B's diagram: weight, support from A, friction from A, and the push if it acts on B */}
+        <Arrow x={topX + 14} y={topY} dx={0} dy={scaled(weightTop)} color="#94a3b8" label="mBg" value={weightTop} showValue={showForceValues} />
+        <Arrow x={topX - 14} y={topY - 14} dx={0} dy={-scaled(normals.between)} color="#94a3b8" label="N₁" value={normals.between} showValue={showForceValues} />
+        <Arrow x={topX} y={topY - 4} dx={Math.sign(top.frictionForce) * scaled(top.frictionForce)} dy={0} color="#ef4444" label="f₁" value={top.frictionForce} showValue={showForceValues} />
+        {params.stack.pushOn === 'top' && <Arrow x={topX + TOP_WIDTH / 2} y={topY + 6} dx={scaled(pushAlong)} dy={0} color="#22c55e" label="Fa" value={push} showValue={showForceValues} />}
+
+        {/* A's diagram: weight, support from the track, track friction, B's friction back on A, and the push if it acts on A */}
+        <Arrow x={cx + BOTTOM_WIDTH / 2 - 10} y={bottomY + 14} dx={0} dy={scaled(weightBottom)} color="#94a3b8" label="mAg" value={weightBottom} showValue={showForceValues} />
+        <Arrow x={cx - BOTTOM_WIDTH / 2 + 10} y={bottomY + 14} dx={0} dy={-scaled(normals.track) - 28} color="#94a3b8" label="N₂" value={normals.track} showValue={showForceValues} />
+        <Arrow x={cx - BOTTOM_WIDTH / 2} y={bottomY + 8} dx={-scaled(state.frictionForce)} dy={0} color="#ef4444" label="f₂" value={state.frictionForce} showValue={showForceValues} />
+        <Arrow x={cx} y={bottomY - 8} dx={-Math.sign(top.frictionForce) * scaled(top.frictionForce)} dy={0} color="#ef4444" label="f₁'" value={top.frictionForce} dashed showValue={showForceValues} />
+        {params.stack.pushOn === 'bottom' && <Arrow x={cx + BOTTOM_WIDTH / 2} y={bottomY} dx={scaled(pushAlong)} dy={0} color="#22c55e" label="Fa" value={push} showValue={showForceValues} />}
+      </svg>
+    </div>
+  );
+};
+
+export default StackedBlocks;
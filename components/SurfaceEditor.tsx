@@ -0,0 +1,359 @@
+import React, { useState } from 'react';
+import { SurfaceConfig, SurfaceColor, MaterialPair, FrictionModel, FrictionModelType, SurfacePatch } from '../types';
+import { SURFACES, SURFACE_COLORS, STATIC_FRICTION_OFFSET } from '../constants';
+import { createSurfaceId, validateSurface, getSurfaceColor, isStaticOffsetLocked, setKineticCoeff, toggleStaticOffsetLock } from '../services/surfaceLibrary';
+import { FRICTION_MODEL_LABELS, DEFAULT_FRICTION_MODELS, getFrictionModel } from '../services/frictionModels';
+import { createPatch, sortPatches } from '../services/trackPatches';
+import MaterialPicker from './MaterialPicker';
+import { Layers, Plus, Pencil, Trash2, Save, X, RotateCcw, ChevronDown, ChevronUp, BookOpen } from 'lucide-react';
+
+interface SurfaceEditorProps {
+  surfaces: SurfaceConfig[];
+  onChange: (surfaces: SurfaceConfig[]) => void;
+  disabled: boolean;
+}
+
+const NEW_SURFACE: Omit<SurfaceConfig, 'id'> = {
+  name: '',
+  staticFrictionCoeff: 0.5,
+  kineticFrictionCoeff: 0.4,
+  frictionRange: [0.2, 0.8],
+  color: 'violet',
+  description: ''
+};
+
+// Number inputs hold NaN while empty so validation can flag them
+const parseNumber = (value: string) => (value.trim() === '' ? NaN : parseFloat(value));
+const showNumber = (value: number) => (Number.isNaN(value) ? '' : value);
+
+const inputClass = "w-full px-1.5 py-1 bg-white border border-slate-300 rounded text-slate-700 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none";
+const labelClass = "block text-[10px] font-bold text-slate-500 uppercase tracking-wide mb-1";
+
+const SurfaceEditor: React.FC<SurfaceEditorProps> = ({ surfaces, onChange, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<SurfaceConfig | null>(null);
+  const [showCatalogue, setShowCatalogue] = useState(false);
+
+  const errors = draft ? validateSurface(draft, surfaces) : [];
+  const isNew = draft !== null && !surfaces.some(s => s.id === draft.id);
+  const model = draft ? getFrictionModel(draft) : DEFAULT_FRICTION_MODELS.coulomb;
+
+  const handleSave = () => {
+    if (!draft || errors.length > 0) return;
+    const cleaned = {
+      ...draft,
+      name: draft.name.trim(),
+      description: draft.description.trim(),
+      patches: draft.patches && draft.patches.length > 0 ? sortPatches(draft.patches) : undefined
+    };
+    onChange(isNew ? [...surfaces, cleaned] : surfaces.map(s => (s.id === cleaned.id ? cleaned : s)));
+    setDraft(null);
+  };
+
+  const handleDelete = (id: string) => {
+    if (surfaces.length <= 1) return;
+    onChange(surfaces.filter(s => s.id !== id));
+    if (draft?.id === id) setDraft(null);
+  };
+
+  const update = (patch: Partial<SurfaceConfig>) => setDraft(prev => (prev ? { ...prev, ...patch } : prev));
+
+  // Hand-tuned coefficients no longer match the cited source
+  const updateCoefficients = (patch: Partial<SurfaceConfig>) => update({ ...patch, source: undefined });
+
+  const updateModel = (patch: Partial<Omit<FrictionModel, 'type'>>) =>
+    setDraft(prev => (prev ? { ...prev, frictionModel: { ...getFrictionModel(prev), ...patch } as FrictionModel } : prev));
+
+  // Other library surfaces a patch can copy its coefficients from
+  const patchSources = draft ? surfaces.filter(s => s.id !== draft.id) : [];
+
+  const updatePatch = (index: number, patch: Partial<SurfacePatch>) =>
+    setDraft(prev => (prev ? { ...prev, patches: (prev.patches ?? []).map((p, i) => (i === index ? { ...p, ...patch } : p)) } : prev));
+
+  const addPatch = () => setDraft(prev => {
+    if (!prev) return prev;
+    const patches = prev.patches ?? [];
+    const start = patches.reduce((end, p) => Math.max(end, p.end), 0);
+    return { ...prev, patches: [...patches, createPatch(patchSources[0] ?? prev, start, start + 50)] };
+  });
+
+  const removePatch = (index: number) =>
+    setDraft(prev => (prev ? { ...prev, patches: (prev.patches ?? []).filter((_, i) => i !== index) } : prev));
+
+  const handlePick = (pair: MaterialPair) => {
+    update({
+      name: pair.name,
+      staticFrictionCoeff: pair.staticFrictionCoeff,
+      kineticFrictionCoeff: pair.kineticFrictionCoeff,
+      frictionRange: pair.frictionRange,
+      description: pair.description,
+      source: pair.source,
+      lockStaticOffset: false
+    });
+    setShowCatalogue(false);
+  };
+
+  const startDraft = (surface: SurfaceConfig, withCatalogue: boolean) => {
+    setDraft(surface);
+    setShowCatalogue(withCatalogue);
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 mb-6">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="w-full flex items-center justify-between text-sm font-semibold text-slate-700"
+      >
+        <span className="flex items-center gap-2"><Layers size={16} className="text-indigo-500" /> Surface Library <span className="text-xs font-normal text-slate-400">({surfaces.length} tracks)</span></span>
+        {isOpen ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-3 animate-in fade-in">
+          {/* Library List */}
+          <ul className="divide-y divide-slate-100 border border-slate-100 rounded-lg">
+            {surfaces.map(s => (
+              <li key={s.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                <span className={`w-3 h-3 rounded-full shrink-0 ${getSurfaceColor(s.color).indicator}`}></span>
+                <span className="font-medium text-slate-700 truncate flex-1" title={s.source ? `${s.description} (${s.source})` : s.description}>{s.name}</span>
+                <span className="text-[11px] font-mono text-slate-500 whitespace-nowrap">
+                  μs {s.staticFrictionCoeff.toFixed(2)} / μk {s.kineticFrictionCoeff.toFixed(2)}
+                </span>
+                <span className="hidden sm:inline text-[10px] font-mono text-slate-400 whitespace-nowrap">
+                  range {s.frictionRange[0]}–{s.frictionRange[1]}{s.rampAngle !== undefined ? ` · ${s.rampAngle}°` : ''}{s.frictionModel && s.frictionModel.type !== 'coulomb' ? ` · ${FRICTION_MODEL_LABELS[s.frictionModel.type]}` : ''}{s.patches ? ` · ${s.patches.length} patch${s.patches.length === 1 ? '' : 'es'}` : ''}
+                </span>
+                <button onClick={() => startDraft({ ...s }, false)} disabled={disabled} className="p-1 text-slate-400 hover:text-indigo-600 disabled:opacity-40" title="Edit">
+                  <Pencil size={14} />
+                </button>
+                <button onClick={() => handleDelete(s.id)} disabled={disabled || surfaces.length <= 1} className="p-1 text-slate-400 hover:text-rose-600 disabled:opacity-40" title="Remove">
+                  <Trash2 size={14} />
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => startDraft({ ...NEW_SURFACE, id: createSurfaceId() }, false)}
+              disabled={disabled}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium border bg-white border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-50"
+            >
+              <Plus size={14} /> Add Surface
+            </button>
+            <button
+              onClick={() => startDraft({ ...NEW_SURFACE, id: createSurfaceId() }, true)}
+              disabled={disabled}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium border bg-white border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-50"
+            >
+              <BookOpen size={14} /> Add Real Material
+            </button>
+            <button
+              onClick={() => { onChange(SURFACES); setDraft(null); }}
+              disabled={disabled}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium border bg-white border-slate-200 text-slate-500 hover:bg-slate-50 disabled:opacity-50"
+            >
+              <RotateCcw size={14} /> Restore Defaults
+            </button>
+          </div>
+
+          {/* Edit Form */}
+          {draft && (
+            <div className="border border-indigo-100 bg-indigo-50/40 rounded-lg p-3 space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-slate-500">
+                  {draft.source ? <>Coefficients from <span className="italic">{draft.source}</span></> : 'Custom coefficients'}
+                </span>
+                <button
+                  onClick={() => setShowCatalogue(prev => !prev)}
+                  className="flex items-center gap-1 text-xs font-medium text-indigo-600 hover:underline"
+                >
+                  <BookOpen size={12} /> {showCatalogue ? 'Hide material library' : 'Fill from material library'}
+                </button>
+              </div>
+              {showCatalogue && <MaterialPicker onPick={handlePick} />}
+
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                <div className="col-span-2">
+                  <label className={labelClass}>Name</label>
+                  <input type="text" value={draft.name} onChange={(e) => update({ name: e.target.value })} className={inputClass} placeholder="e.g. Carpet" />
+                </div>
+                <div className="col-span-2">
+                  <label className={labelClass}>Color</label>
+                  <div className="flex gap-1.5 py-1">
+                    {(Object.keys(SURFACE_COLORS) as SurfaceColor[]).map(c => (
+                      <button
+                        key={c}
+                        onClick={() => update({ color: c })}
+                        className={`w-6 h-6 rounded-full ${SURFACE_COLORS[c].indicator} ${draft.color === c ? 'ring-2 ring-offset-1 ring-indigo-500' : ''}`}
+                        title={c}
+                      />
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <label className={`${labelClass} flex items-center gap-1`}>
+                    μs (static)
+                    <input
+                      type="checkbox"
+                      checked={isStaticOffsetLocked(draft)}
+                      onChange={() => setDraft(prev => (prev ? toggleStaticOffsetLock(prev) : prev))}
+                      className="accent-indigo-600 ml-auto"
+                      title={`Lock μs to μk + ${STATIC_FRICTION_OFFSET}`}
+                    />
+                    <span className="normal-case font-normal">lock</span>
+                  </label>
+                  <input type="number" step="0.01" min="0" disabled={isStaticOffsetLocked(draft)} value={showNumber(draft.staticFrictionCoeff)} onChange={(e) => updateCoefficients({ staticFrictionCoeff: parseNumber(e.target.value) })} className={`${inputClass} font-mono disabled:bg-slate-50`} />
+                </div>
+                <div>
+                  <label className={labelClass}>μk (kinetic)</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={showNumber(draft.kineticFrictionCoeff)}
+                    onChange={(e) => {
+                      const value = parseNumber(e.target.value);
+                      // A locked draft keeps mu_s on the fixed offset while typing
+                      if (isStaticOffsetLocked(draft)) setDraft(prev => (prev ? setKineticCoeff(prev, value) : prev));
+                      else updateCoefficients({ kineticFrictionCoeff: value });
+                    }}
+                    className={`${inputClass} font-mono`}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Slider Min</label>
+                  <input type="number" step="0.01" min="0" value={showNumber(draft.frictionRange[0])} onChange={(e) => update({ frictionRange: [parseNumber(e.target.value), draft.frictionRange[1]] })} className={`${inputClass} font-mono`} />
+                </div>
+                <div>
+                  <label className={labelClass}>Slider Max</label>
+                  <input type="number" step="0.01" min="0" value={showNumber(draft.frictionRange[1])} onChange={(e) => update({ frictionRange: [draft.frictionRange[0], parseNumber(e.target.value)] })} className={`${inputClass} font-mono`} />
+                </div>
+                <div className="col-span-2 sm:col-span-3">
+                  <label className={labelClass}>Description</label>
+                  <input type="text" value={draft.description} onChange={(e) => update({ description: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className={`${labelClass} flex items-center gap-1`}>
+                    <input
+                      type="checkbox"
+                      checked={draft.rampAngle !== undefined}
+                      onChange={(e) => update({ rampAngle: e.target.checked ? 0 : undefined })}
+                      className="accent-indigo-600"
+                    />
+                    Own Ramp °
+                  </label>
+                  <input
+                    type="number"
+                    step="0.5"
+                    min="0"
+                    max="60"
+                    disabled={draft.rampAngle === undefined}
+                    value={draft.rampAngle === undefined ? '' : showNumber(draft.rampAngle)}
+                    onChange={(e) => update({ rampAngle: parseNumber(e.target.value) })}
+                    className={`${inputClass} font-mono disabled:bg-slate-50`}
+                    placeholder="global"
+                  />
+                </div>
+              </div>
+
+              {/* Friction Model */}
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                <div>
+                  <label className={labelClass}>Friction Model</label>
+                  <select
+                    value={model.type}
+                    onChange={(e) => update({ frictionModel: DEFAULT_FRICTION_MODELS[e.target.value as FrictionModelType] })}
+                    className={inputClass}
+                  >
+                    {(Object.keys(FRICTION_MODEL_LABELS) as FrictionModelType[]).map(type => (
+                      <option key={type} value={type}>{FRICTION_MODEL_LABELS[type]}</option>
+                    ))}
+                  </select>
+                </div>
+                {model.type === 'stribeck' && (
+                  <>
+                    <div>
+                      <label className={labelClass}>Stribeck v (m/s)</label>
+                      <input type="number" step="0.05" min="0" value={showNumber(model.stribeckVelocity)} onChange={(e) => updateModel({ stribeckVelocity: parseNumber(e.target.value) })} className={`${inputClass} font-mono`} />
+                    </div>
+                    <div>
+                      <label className={labelClass}>Exponent δ</label>
+                      <input type="number" step="0.1" min="0" value={showNumber(model.exponent)} onChange={(e) => updateModel({ exponent: parseNumber(e.target.value) })} className={`${inputClass} font-mono`} />
+                    </div>
+                  </>
+                )}
+                {model.type !== 'coulomb' && (
+                  <div>
+                    <label className={labelClass}>Viscous b (N·s/m)</label>
+                    <input type="number" step="0.1" min="0" value={showNumber(model.viscousCoeff)} onChange={(e) => updateModel({ viscousCoeff: parseNumber(e.target.value) })} className={`${inputClass} font-mono`} />
+                  </div>
+                )}
+              </div>
+
+              {/* Patches */}
+              <div>
+                <label className={labelClass}>
+                  Patches <span className="normal-case font-normal text-slate-400">stretches of another surface; this one covers the rest of the track</span>
+                </label>
+                <div className="space-y-1">
+                  {(draft.patches ?? []).map((patch, i) => (
+                    <div key={i} className="flex flex-wrap items-center gap-2 text-xs">
+                      <span className={`w-3 h-3 rounded-full shrink-0 ${getSurfaceColor(patch.color).indicator}`}></span>
+                      <select
+                        value={patchSources.find(s => s.name === patch.name)?.id ?? ''}
+                        onChange={(e) => {
+                          const source = patchSources.find(s => s.id === e.target.value);
+                          if (source) updatePatch(i, createPatch(source, patch.start, patch.end));
+                        }}
+                        className="px-1.5 py-1 bg-white border border-slate-300 rounded text-slate-700 text-xs focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+                      >
+                        {!patchSources.some(s => s.name === patch.name) && <option value="">{patch.name}</option>}
+                        {patchSources.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                      </select>
+                      <label className="flex items-center gap-1 text-[10px] text-slate-500">
+                        from
+                        <input type="number" step="10" min="0" value={showNumber(patch.start)} onChange={(e) => updatePatch(i, { start: parseNumber(e.target.value) })} className="w-16 px-1 py-1 bg-white border border-slate-300 rounded text-right text-slate-700 font-mono text-xs outline-none focus:ring-2 focus:ring-indigo-500" />
+                      </label>
+                      <label className="flex items-center gap-1 text-[10px] text-slate-500">
+                        to
+                        <input type="number" step="10" min="0" value={showNumber(patch.end)} onChange={(e) => updatePatch(i, { end: parseNumber(e.target.value) })} className="w-16 px-1 py-1 bg-white border border-slate-300 rounded text-right text-slate-700 font-mono text-xs outline-none focus:ring-2 focus:ring-indigo-500" />
+                        m
+                      </label>
+                      <span className="text-[11px] font-mono text-slate-500">μs {patch.staticFrictionCoeff.toFixed(2)} / μk {patch.kineticFrictionCoeff.toFixed(2)}</span>
+                      <button onClick={() => removePatch(i)} className="p-0.5 text-slate-400 hover:text-rose-600" title="Remove patch">
+                        <Trash2 size={12} />
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    onClick={addPatch}
+                    className="flex items-center gap-1 px-2 py-0.5 rounded text-[11px] font-medium border bg-white border-slate-200 text-slate-600 hover:bg-slate-50"
+                  >
+                    <Plus size={10} /> Patch
+                  </button>
+                </div>
+              </div>
+
+              {errors.length > 0 && (
+                <ul className="text-xs text-rose-600 list-disc list-inside">
+                  {errors.map(err => <li key={err}>{err}</li>)}
+                </ul>
+              )}
+
+              <div className="flex gap-2 justify-end">
+                <button onClick={() => setDraft(null)} className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium border bg-white border-slate-200 text-slate-600 hover:bg-slate-50">
+                  <X size={14} /> Cancel
+                </button>
+                <button onClick={handleSave} disabled={errors.length > 0} className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50">
+                  <Save size={14} /> {isNew ? 'Add' : 'Save'}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SurfaceEditor;
@@ -0,0 +1,295 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { SimulationParams, SurfaceConfig, SweepAxis, SweepMetric, SweepParameter, SweepResult, SweepCell } from '../types';
+import { SWEEP_PARAMETERS, SWEEP_METRICS, SweepMessage, getSweepParameters, validateSweep, getCellValue } from '../services/parameterSweep';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { Grid3x3, Play, Square } from 'lucide-react';
+
+interface SweepExplorerProps {
+  params: SimulationParams;
+  surfaces: SurfaceConfig[];
+}
+
+const DEFAULT_X: SweepAxis = { parameter: 'appliedForce', from: 0, to: 500, steps: 21 };
+const DEFAULT_Y: SweepAxis = { parameter: 'kineticFrictionCoeff', from: 0.1, to: 1, steps: 10 };
+
+const HEAT_WIDTH = 560;
+const HEAT_HEIGHT = 300;
+const MARGIN = { top: 8, right: 8, bottom: 28, left: 48 };
+const LOW_COLOR = [238, 242, 255]; // indigo-50
+const HIGH_COLOR = [55, 48, 163]; // indigo-800
+const EMPTY_COLOR = '#e2e8f0'; // slate-200: never finished, or didn't move
+const BOUNDARY_COLOR = '#f43f5e';
+
+const inputClass = "w-14 px-1 py-0.5 bg-white border border-slate-300 rounded text-right text-slate-700 font-mono text-xs focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none disabled:bg-slate-50";
+const selectClass = "px-1.5 py-0.5 bg-white border border-slate-300 rounded text-slate-700 text-xs focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none disabled:bg-slate-50";
+
+const mix = (t: number) => `rgb(${LOW_COLOR.map((low, i) => Math.round(low + (HIGH_COLOR[i] - low) * t)).join(',')})`;
+
+const formatValue = (value: number) => (Math.abs(value) >= 10 ? value.toFixed(0) : value.toFixed(2));
+
+const axisLabel = (axis: SweepAxis) => {
+  const { label, unit } = SWEEP_PARAMETERS[axis.parameter];
+  return unit ? `${label} (${unit})` : label;
+};
+
+const describeCell = (cell: SweepCell) =>
+  !cell.moved ? "didn't move" : cell.finishTime !== null ? `finished in ${cell.finishTime.toFixed(2)} s` : `stopped at ${cell.stopPosition.toFixed(1)} m`;
+
+interface AxisFieldsProps {
+  name: string;
+  axis: SweepAxis;
+  options: SweepParameter[];
+  disabled: boolean;
+  onChange: (axis: SweepAxis) => void;
+}
+
+const AxisFields: React.FC<AxisFieldsProps> = ({ name, axis, options, disabled, onChange }) => {
+  const handleNumber = (key: 'from' | 'to' | 'steps') => (e: React.ChangeEvent<HTMLInputElement>) =>
+    onChange({ ...axis, [key]: parseFloat(e.target.value) });
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-[10px] text-slate-500">
+      <span className="font-bold uppercase tracking-wide w-4">{name}</span>
+      <select value={axis.parameter} onChange={(e) => onChange({ ...axis, parameter: e.target.value as SweepParameter })} disabled={disabled} className={selectClass}>
+        {options.map(key => <option key={key} value={key}>{SWEEP_PARAMETERS[key].label}</option>)}
+      </select>
+      <label className="flex items-center gap-1">from <input type="number" value={Number.isNaN(axis.from) ? '' : axis.from} onChange={handleNumber('from')} disabled={disabled} className={inputClass} /></label>
+      <label className="flex items-center gap-1">to <input type="number" value={Number.isNaN(axis.to) ? '' : axis.to} onChange={handleNumber('to')} disabled={disabled} className={inputClass} /></label>
+      <span>{SWEEP_PARAMETERS[axis.parameter].unit}</span>
+      <label className="flex items-center gap-1">steps <input type="number" min="2" step="1" value={Number.isNaN(axis.steps) ? '' : axis.steps} onChange={handleNumber('steps')} disabled={disabled} className={inputClass} /></label>
+    </div>
+  );
+};
+
+interface HeatmapProps {
+  result: SweepResult;
+  metric: SweepMetric;
+}
+
+// 2D sweep: one cell per grid point, the breakaway boundary drawn over the top
+const Heatmap: React.FC<HeatmapProps> = ({ result, metric }) => {
+  const x = result.x;
+  const y = result.y!;
+  const plotWidth = HEAT_WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = HEAT_HEIGHT - MARGIN.top - MARGIN.bottom;
+  const cellWidth = plotWidth / x.steps;
+  const cellHeight = plotHeight / y.steps;
+  // Cells are centred on their grid values, so the plot runs half a step past each end
+  const halfX = (x.to - x.from) / (x.steps - 1) / 2;
+  const halfY = (y.to - y.from) / (y.steps - 1) / 2;
+  const toPx = (value: number) => MARGIN.left + ((value - x.from + halfX) / (x.to - x.from + 2 * halfX)) * plotWidth;
+  const toPy = (value: number) => MARGIN.top + plotHeight - ((value - y.from + halfY) / (y.to - y.from + 2 * halfY)) * plotHeight;
+
+  const values = result.cells.map(cell => getCellValue(cell, metric));
+  const finite = values.filter((v): v is number => v !== null);
+  const min = Math.min(...finite);
+  const max = Math.max(...finite);
+  const colorOf = (value: number | null) => {
+    if (value === null || (metric === 'moved' && value === 0)) return EMPTY_COLOR;
+    if (metric === 'moved') return mix(0.6);
+    return mix(max > min ? (value - min) / (max - min) : 0.5);
+  };
+  const boundary = result.breakaway.map(p => `${toPx(p.x).toFixed(1)},${toPy(p.y).toFixed(1)}`).join(' ');
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${HEAT_WIDTH} ${HEAT_HEIGHT}`} className="w-full h-auto">
+        <defs>
+          <clipPath id="sweep-plot">
+            <rect x={MARGIN.left} y={MARGIN.top} width={plotWidth} height={plotHeight} />
+          </clipPath>
+        </defs>
+        {result.cells.map((cell, k) => (
+          <rect
+            key={k}
+            x={MARGIN.left + (k % x.steps) * cellWidth}
+            y={MARGIN.top + plotHeight - (Math.floor(k / x.steps) + 1) * cellHeight}
+            width={cellWidth + 0.5}
+            height={cellHeight + 0.5}
+            fill={colorOf(values[k])}
+          >
+            <title>{`${SWEEP_PARAMETERS[x.parameter].label} ${formatValue(cell.x)}, ${SWEEP_PARAMETERS[y.parameter].label} ${formatValue(cell.y!)}: ${describeCell(cell)}`}</title>
+          </rect>
+        ))}
+        {result.breakaway.length > 1 && (
+          <polyline points={boundary} fill="none" stroke={BOUNDARY_COLOR} strokeWidth="2" strokeDasharray="5 3" clipPath="url(#sweep-plot)" />
+        )}
+        <rect x={MARGIN.left} y={MARGIN.top} width={plotWidth} height={plotHeight} fill="none" stroke="#cbd5e1" />
+        {[x.from, (x.from + x.to) / 2, x.to].map(value => (
+          <text key={`x${value}`} x={toPx(value)} y={HEAT_HEIGHT - MARGIN.bottom + 12} textAnchor="middle" className="fill-slate-500 text-[10px] font-mono">{formatValue(value)}</text>
+        ))}
+        {[y.from, (y.from + y.to) / 2, y.to].map(value => (
+          <text key={`y${value}`} x={MARGIN.left - 4} y={toPy(value) + 3} textAnchor="end" className="fill-slate-500 text-[10px] font-mono">{formatValue(value)}</text>
+        ))}
+        <text x={MARGIN.left + plotWidth / 2} y={HEAT_HEIGHT - 2} textAnchor="middle" className="fill-slate-600 text-[10px] font-bold">{axisLabel(x)}</text>
+        <text x={10} y={MARGIN.top + plotHeight / 2} textAnchor="middle" transform={`rotate(-90 10 ${MARGIN.top + plotHeight / 2})`} className="fill-slate-600 text-[10px] font-bold">{axisLabel(y)}</text>
+      </svg>
+      <div className="flex flex-wrap items-center gap-4 text-[10px] text-slate-500 mt-2">
+        {metric === 'moved' ? (
+          <>
+            <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm" style={{ background: mix(0.6) }}></span> moved</span>
+            <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm" style={{ background: EMPTY_COLOR }}></span> didn't move</span>
+          </>
+        ) : (
+          <span className="flex items-center gap-1 font-mono">
+            {finite.length > 0 ? formatValue(min) : '–'}
+            <span className="w-24 h-3 rounded-sm" style={{ background: `linear-gradient(to right, ${mix(0)}, ${mix(1)})` }}></span>
+            {finite.length > 0 ? formatValue(max) : '–'} {SWEEP_METRICS[metric].unit}
+            {metric === 'finishTime' && <><span className="w-3 h-3 rounded-sm ml-2" style={{ background: EMPTY_COLOR }}></span> never finished</>}
+          </span>
+        )}
+        {result.breakaway.length > 1 && (
+          <span className="flex items-center gap-1"><span className="w-4 border-t-2 border-dashed" style={{ borderColor: BOUNDARY_COLOR }}></span> breakaway F = μs·m·g</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Sweeps one or two inputs for a single surface in a Web Worker and plots the outcome
+const SweepExplorer: React.FC<SweepExplorerProps> = ({ params, surfaces }) => {
+  const [surfaceId, setSurfaceId] = useState(surfaces[0]?.id ?? '');
+  const [xAxis, setXAxis] = useState<SweepAxis>(DEFAULT_X);
+  const [yAxis, setYAxis] = useState<SweepAxis>(DEFAULT_Y);
+  const [twoD, setTwoD] = useState(true);
+  const [metric, setMetric] = useState<SweepMetric>('finishTime');
+  const [progress, setProgress] = useState<number | null>(null); // 0..1 while running
+  const [result, setResult] = useState<SweepResult | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  // Don't leave a sweep running after the panel goes away
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const surface = surfaces.find(s => s.id === surfaceId) ?? surfaces[0];
+  const options = getSweepParameters(params);
+  // The force mode may have ruled an input out since it was picked
+  const fit = (axis: SweepAxis, fallback: SweepParameter): SweepAxis =>
+    options.includes(axis.parameter) ? axis : { ...axis, parameter: options.includes(fallback) ? fallback : options[0] };
+  const x = fit(xAxis, 'mass');
+  const y = twoD ? fit(yAxis, 'kineticFrictionCoeff') : null;
+  const errors = validateSweep(x, y);
+  const running = progress !== null;
+
+  const stop = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setProgress(null);
+  };
+
+  const handleRun = () => {
+    if (!surface) return;
+    stop();
+    const worker = new Worker(new URL('../services/sweepWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<SweepMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        setProgress(message.done / message.total);
+      } else {
+        setResult(message.result);
+        stop();
+      }
+    };
+    worker.onerror = () => stop();
+    workerRef.current = worker;
+    setProgress(0);
+    worker.postMessage({ params, surface, x, y });
+  };
+
+  const lineData = result && !result.y
+    ? result.cells.map(cell => ({ x: cell.x, value: getCellValue(cell, metric) }))
+    : [];
+  const resultSurface = result ? surfaces.find(s => s.id === result.surfaceId) : undefined;
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 mb-8">
+      <h3 className="text-lg font-semibold text-slate-800 mb-1 flex items-center gap-2">
+        <Grid3x3 size={20} className="text-indigo-500" /> Parameter Sweep
+      </h3>
+      <p className="text-xs text-slate-500 mb-4">
+        Runs the simulation at every grid point with the current settings and plots the outcome. Everything not swept stays as set above.
+      </p>
+
+      <div className="space-y-2 mb-4">
+        <div className="flex flex-wrap items-center gap-3 text-[10px] text-slate-500">
+          <label className="flex items-center gap-1 font-bold uppercase tracking-wide">
+            Surface
+            <select value={surface?.id ?? ''} onChange={(e) => setSurfaceId(e.target.value)} disabled={running} className={selectClass}>
+              {surfaces.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-1 font-bold uppercase tracking-wide cursor-pointer">
+            <input type="checkbox" checked={twoD} onChange={(e) => setTwoD(e.target.checked)} disabled={running} className="accent-indigo-600" />
+            Two inputs
+          </label>
+          <label className="flex items-center gap-1 font-bold uppercase tracking-wide">
+            Plot
+            <select value={metric} onChange={(e) => setMetric(e.target.value as SweepMetric)} className={selectClass}>
+              {(Object.keys(SWEEP_METRICS) as SweepMetric[]).map(key => <option key={key} value={key}>{SWEEP_METRICS[key].label}</option>)}
+            </select>
+          </label>
+        </div>
+        <AxisFields name="X" axis={x} options={options} disabled={running} onChange={setXAxis} />
+        {y && <AxisFields name="Y" axis={y} options={options} disabled={running} onChange={setYAxis} />}
+        <div className="flex flex-wrap items-center gap-3">
+          {running ? (
+            <button
+              onClick={stop}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium border bg-white border-slate-200 text-slate-600 hover:bg-slate-50 transition-colors"
+            >
+              <Square size={12} /> Stop
+            </button>
+          ) : (
+            <button
+              onClick={handleRun}
+              disabled={errors.length > 0 || !surface}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium border bg-white border-slate-200 text-slate-600 hover:bg-slate-50 transition-colors disabled:opacity-50"
+            >
+              <Play size={12} /> Run {y ? `${x.steps * y.steps} runs` : `${x.steps} runs`}
+            </button>
+          )}
+          {running && (
+            <div className="flex items-center gap-2 text-[10px] text-slate-500 font-mono">
+              <div className="w-32 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                <div className="h-full bg-indigo-500" style={{ width: `${(progress * 100).toFixed(0)}%` }}></div>
+              </div>
+              {(progress * 100).toFixed(0)}%
+            </div>
+          )}
+          {errors.length > 0 && <span className="text-[10px] text-rose-600">{errors[0]}</span>}
+        </div>
+      </div>
+
+      {result && (
+        <div>
+          <p className="text-[10px] font-bold text-slate-500 uppercase tracking-wide mb-2">
+            {SWEEP_METRICS[metric].label} on {resultSurface?.name ?? 'a removed surface'}
+          </p>
+          {result.y ? (
+            <Heatmap result={result} metric={metric} />
+          ) : (
+            <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={lineData} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="x" type="number" domain={[result.x.from, result.x.to]} tickFormatter={formatValue} unit={SWEEP_PARAMETERS[result.x.parameter].unit} />
+                  <YAxis tickFormatter={(v: number) => (metric === 'moved' ? (v ? 'yes' : 'no') : formatValue(v))} width={45} domain={metric === 'moved' ? [0, 1] : ['auto', 'auto']} ticks={metric === 'moved' ? [0, 1] : undefined} />
+                  <Tooltip
+                    labelFormatter={(v) => `${SWEEP_PARAMETERS[result.x.parameter].label} = ${formatValue(Number(v))} ${SWEEP_PARAMETERS[result.x.parameter].unit}`}
+                    formatter={(v) => (metric === 'moved' ? (Number(v) ? 'moved' : "didn't move") : `${Number(v).toFixed(2)} ${SWEEP_METRICS[metric].unit}`)}
+                    contentStyle={{borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)'}}
+                  />
+                  {result.breakaway.map(p => (
+                    <ReferenceLine key={p.x} x={p.x} stroke={BOUNDARY_COLOR} strokeDasharray="5 3" label={{ value: 'F = μs·m·g', position: 'insideTopRight', fontSize: 10, fill: BOUNDARY_COLOR }} />
+                  ))}
+                  <Line dataKey="value" name={SWEEP_METRICS[metric].label} stroke="#6366f1" strokeWidth={2} type={metric === 'moved' ? 'stepAfter' : 'linear'} dot={false} isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SweepExplorer;
@@ -1,32 +1,67 @@
 
-import React from 'react';
-import { SurfaceConfig, SimulationState, SimulationParams, SurfaceType } from '../types';
-import { CheckCircle } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { SurfaceConfig, SimulationState, SimulationParams } from '../types';
+import { getRampAngle, getNormalForce, getGravityAlongSlope, getWeight, getTerminalVelocity, getPushAlong, getPushLift, getForceAngle } from '../services/forces';
+import { getSurfaceColor, isStaticOffsetLocked } from '../services/surfaceLibrary';
+import { getSurfaceAt, getTrackSegments, hasPatches } from '../services/trackPatches';
+import { STATIC_FRICTION_OFFSET } from '../constants';
+import FrictionCurve from './FrictionCurve';
+import StackedBlocks from './StackedBlocks';
+import HangingMass from './HangingMass';
+import { CheckCircle, Lock, Unlock, AlertTriangle } from 'lucide-react';
 
 interface TrackProps {
   surface: SurfaceConfig;
   state: SimulationState;
   params: SimulationParams;
-  onFrictionChange?: (type: SurfaceType, value: number) => void;
+  onFrictionChange?: (surfaceId: string, coefficient: 'static' | 'kinetic', value: number) => void;
+  onToggleLock?: (surfaceId: string) => void;
   readOnly?: boolean;
   showForceValues?: boolean;
   showStaticLimit?: boolean;
 }
 
-const Track: React.FC<TrackProps> = ({ surface, state, params, onFrictionChange, readOnly, showForceValues, showStaticLimit }) => {
+const Track: React.FC<TrackProps> = ({ surface, state, params, onFrictionChange, onToggleLock, readOnly, showForceValues, showStaticLimit }) => {
   // Use a visual range to avoid clipping at edges (car width + vectors)
   const VISUAL_PADDING_PERCENT = 15; // 15% padding on each side
   const VISUAL_WIDTH_PERCENT = 100 - (VISUAL_PADDING_PERCENT * 2);
   
   const progressFraction = Math.min(state.position / params.distance, 1);
-  const visualLeft = VISUAL_PADDING_PERCENT + (progressFraction * VISUAL_WIDTH_PERCENT);
+  // A block knocked back past the start is drawn on the start line
+  const toVisualLeft = (position: number) => VISUAL_PADDING_PERCENT + Math.max(0, Math.min(position / params.distance, 1)) * VISUAL_WIDTH_PERCENT;
+  const visualLeft = toVisualLeft(state.position);
 
-  const handleFrictionChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Ramp geometry: the track layer is rotated by the true angle and narrowed
+  // so its ends stay inside the card, which grows taller with the slope
+  const rampAngle = getRampAngle(surface, params);
+  const rampRad = (rampAngle * Math.PI) / 180;
+  const cardHeight = 144 + 160 * Math.sin(rampRad);
+  const trackAreaRef = useRef<HTMLDivElement>(null);
+  const [trackAreaWidth, setTrackAreaWidth] = useState(0);
+
+  useEffect(() => {
+    const el = trackAreaRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(([entry]) => setTrackAreaWidth(entry.contentRect.width));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const verticalBudget = cardHeight - 80; // leave room for the block at either end
+  const layerWidth = rampAngle > 0 && trackAreaWidth > 0
+    ? Math.min(trackAreaWidth, verticalBudget / ((VISUAL_WIDTH_PERCENT / 100) * Math.sin(rampRad)))
+    : undefined;
+
+  const handleFrictionChange = (coefficient: 'static' | 'kinetic') => (e: React.ChangeEvent<HTMLInputElement>) => {
     if (onFrictionChange) {
-      onFrictionChange(surface.type, parseFloat(e.target.value));
+      onFrictionChange(surface.id, coefficient, parseFloat(e.target.value));
     }
   };
 
+  // mu_s sits above the kinetic range; widen it for pairs like steel on ice
+  const locked = isStaticOffsetLocked(surface);
+  const staticMax = Math.max(surface.frictionRange[1] + STATIC_FRICTION_OFFSET, Math.ceil(surface.staticFrictionCoeff * 10) / 10);
+
   // Adaptive Force Scaling Function
   const getScaledLength = (f: number) => {
     if (f === 0) return 0;
@@ -34,20 +69,38 @@ const Track: React.FC<TrackProps> = ({ surface, state, params, onFrictionChange,
     return Math.log10(absF + 1) * 15;
   };
 
+  // On a patched track, friction comes from whatever is under the block right now
+  const here = getSurfaceAt(surface, state.position);
+  const patched = hasPatches(surface);
+  const segments = patched ? getTrackSegments(surface, params.distance) : [];
+  const currentSegment = segments.find(s => state.position < s.end) ?? segments[segments.length - 1];
+
   // Calculate Forces
-  const normalForce = params.mass * 9.81;
-  const fStaticMax = surface.staticFrictionCoeff * normalForce;
+  const weight = getWeight(params);
   const appForce = state.currentAppliedForce;
+  const liftedOff = state.status === 'lifted-off';
+  const isHanging = params.forceMode === 'hanging';
+  // An angled pull takes some weight off the track
+  const normalForce = Math.max(0, getNormalForce(surface, params, appForce));
+  const gravityAlong = getGravityAlongSlope(surface, params);
+  const fStaticMax = here.staticFrictionCoeff * normalForce;
+  const appAlong = getPushAlong(params, appForce);
+  const appLift = getPushLift(params, appForce);
+  // What static friction has to hold back: the push's forward part plus the slope's pull
+  const drivingForce = appAlong + gravityAlong;
+  const terminalVelocity = getTerminalVelocity(surface, params, appForce);
 
   // Face Logic: Determine emotion based on force comparison
   let emotion: 'idle' | 'happy' | 'sad' | 'neutral' | 'ecstatic' = 'idle';
   
-  if (state.status === 'finished') {
+  if (state.status === 'crossed-finish') {
     emotion = 'ecstatic';
-  } else if (appForce > 0) {
-    if (appForce > fStaticMax + 0.1) {
+  } else if (liftedOff || state.status === 'stopped-short') {
+    emotion = 'sad';
+  } else if (drivingForce > 0) {
+    if (drivingForce > fStaticMax + 0.1) {
       emotion = 'happy';
-    } else if (Math.abs(appForce - fStaticMax) <= 0.1) {
+    } else if (Math.abs(drivingForce - fStaticMax) <= 0.1) {
       emotion = 'neutral';
     } else {
       emotion = 'sad';
@@ -56,49 +109,116 @@ const Track: React.FC<TrackProps> = ({ surface, state, params, onFrictionChange,
 
   // Calculate Net Force based on dynamic state
   let netForce = 0;
-  if (state.status === 'moving') {
-    netForce = state.currentAppliedForce - state.frictionForce;
-  } else if (state.status === 'static') {
-    netForce = 0;
+  if (state.stack) {
+    // Net external force on the whole stack
+    netForce = params.mass * state.acceleration + params.stack.topMass * state.stack.acceleration;
+  } else if (state.bodies) {
+    // On the pushed block alone; impacts are instantaneous and not counted here
+    netForce = params.mass * state.acceleration;
+  } else if (state.status === 'sliding') {
+    // With a hanging mass the string pulls the block with the tension, not the full hanging weight
+    netForce = (isHanging ? state.tension + gravityAlong : drivingForce) - state.frictionForce - state.dragForce;
   }
 
-  const fAppLen = getScaledLength(state.currentAppliedForce);
+  // The arrow on the block is the string tension when a hanging mass pulls it
+  const pullOnBlock = isHanging ? state.tension : state.currentAppliedForce;
+  const fAppLen = getScaledLength(pullOnBlock);
+  // The pull is drawn at its angle; its components share the arrow's scale so they close the triangle
+  const forceAngle = getForceAngle(params);
+  const forceRad = (forceAngle * Math.PI) / 180;
+  const fAppEndX = 175 + fAppLen * Math.cos(forceRad);
+  const fAppEndY = 110 - fAppLen * Math.sin(forceRad);
   const fFricLen = getScaledLength(state.frictionForce);
+  const fDragLen = getScaledLength(state.dragForce);
   const fStaticMaxLen = getScaledLength(fStaticMax);
   const fNormLen = getScaledLength(normalForce);
-  const fGravLen = fNormLen;
+  const fGravLen = getScaledLength(weight);
+  const fGravAlongLen = getScaledLength(gravityAlong);
+  // The diagram is drawn in the slope's frame, so "straight down" leans downhill
+  const gravDirX = Math.sin(rampRad);
+  const gravDirY = Math.cos(rampRad);
 
   // Format values for display
   const normalVal = normalForce.toFixed(1);
-  const gravVal = normalForce.toFixed(1);
-  const appVal = state.currentAppliedForce.toFixed(0);
+  const gravVal = weight.toFixed(1);
+  const appVal = pullOnBlock.toFixed(0);
   const fricVal = state.frictionForce.toFixed(1);
+  const dragVal = state.dragForce.toFixed(1);
   const staticMaxVal = fStaticMax.toFixed(1);
 
-  // Helper for color indicator mapping to new names
-  const getIndicatorColor = (type: SurfaceType) => {
-    switch (type) {
-      case SurfaceType.ICE: return 'bg-cyan-500';
-      case SurfaceType.NORMAL: return 'bg-slate-500';
-      case SurfaceType.ROUGH: return 'bg-orange-500';
-      default: return 'bg-indigo-500';
-    }
-  };
+  // Energy bar: work done by the push (and gravity), split into what's still kinetic, what became heat,
+  // what went into the air and what the impacts took
+  const workIn = state.workApplied + state.workGravity;
+  const workCollision = state.workCollision ?? 0;
+  const energyTotal = Math.max(workIn, state.kineticEnergy + state.workFriction + state.workDrag + workCollision);
+  const kePercent = energyTotal > 0 ? (state.kineticEnergy / energyTotal) * 100 : 0;
+  const heatPercent = energyTotal > 0 ? (state.workFriction / energyTotal) * 100 : 0;
+  const dragPercent = energyTotal > 0 ? (state.workDrag / energyTotal) * 100 : 0;
+  const collisionPercent = energyTotal > 0 ? (workCollision / energyTotal) * 100 : 0;
+  const momentum = state.bodies?.reduce((sum, body) => sum + body.mass * body.velocity, 0) ?? 0;
+
+  const surfaceColor = getSurfaceColor(surface.color);
 
   return (
-    <div className="flex h-36 mb-3 bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+    <div className="flex mb-3 bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden" style={{ height: `${cardHeight}px` }}>
       
       {/* LEFT: Track Visualization */}
-      <div className={`relative flex-1 ${surface.color} bg-opacity-20`}>
+      <div ref={trackAreaRef} className={`relative flex-1 ${surfaceColor.track} bg-opacity-20`}>
          
-         <div className="absolute inset-0 flex items-center">
-            <div className="relative w-full h-full">
+         {rampAngle > 0 && (
+           <div className="absolute top-1 right-2 text-[10px] font-mono font-bold text-slate-500 z-20">θ = {rampAngle}°</div>
+         )}
+
+         {/* Live Energy Bar */}
+         {workIn > 0 && (
+           <div
+             className="absolute bottom-1.5 z-20 pointer-events-none"
+             style={{ left: `${VISUAL_PADDING_PERCENT}%`, right: `${VISUAL_PADDING_PERCENT}%` }}
+           >
+             <div className="flex h-1.5 rounded-full overflow-hidden bg-slate-200/60">
+               <div className="bg-emerald-400" style={{ width: `${kePercent}%` }}></div>
+               <div className="bg-rose-400" style={{ width: `${heatPercent}%` }}></div>
+               <div className="bg-sky-400" style={{ width: `${dragPercent}%` }}></div>
+               <div className="bg-amber-400" style={{ width: `${collisionPercent}%` }}></div>
+             </div>
+             <div className="text-[8px] font-mono text-slate-500 mt-0.5">
+               W={workIn.toFixed(0)}J → <span className="text-emerald-600">KE={state.kineticEnergy.toFixed(0)}J</span> + <span className="text-rose-500">Heat={state.workFriction.toFixed(0)}J</span>
+               {params.airDrag && <> + <span className="text-sky-600">Drag={state.workDrag.toFixed(0)}J</span></>}
+               {state.bodies && <> + <span className="text-amber-600">Impacts={workCollision.toFixed(0)}J</span></>}
+             </div>
+           </div>
+         )}
+
+         <div className="absolute inset-0 flex items-center justify-center">
+            <div
+              className="relative h-full shrink-0"
+              style={{ width: layerWidth !== undefined ? `${layerWidth}px` : '100%', transform: `rotate(${rampAngle}deg)` }}
+            >
                 {/* Track Surface Line with padding */}
                 <div 
                   className="absolute top-1/2 border-b-2 border-slate-400/30 transform -translate-y-1/2"
                   style={{ left: `${VISUAL_PADDING_PERCENT}%`, right: `${VISUAL_PADDING_PERCENT}%` }}
                 ></div>
                 
+                {/* Patches in their own colors, with a marker at every boundary */}
+                {segments.filter(segment => segment.patched).map(segment => (
+                  <div
+                    key={segment.start}
+                    className={`absolute top-1/2 h-2 -translate-y-1/2 border-x ${getSurfaceColor(segment.color).track}`}
+                    style={{ left: `${toVisualLeft(segment.start)}%`, width: `${toVisualLeft(segment.end) - toVisualLeft(segment.start)}%` }}
+                    title={`${segment.name}: ${segment.start}–${segment.end} m`}
+                  ></div>
+                ))}
+                {segments.slice(1).map(segment => (
+                  <div
+                    key={segment.start}
+                    className="absolute top-1/2 h-8 -translate-y-1/2 border-l border-dashed border-slate-500/60 pointer-events-none"
+                    style={{ left: `${toVisualLeft(segment.start)}%` }}
+                  >
+                    <span className="absolute bottom-full -translate-x-1/2 text-[8px] font-mono text-slate-500 whitespace-nowrap">{segment.start}m {segment.name}</span>
+                  </div>
+                ))}
+
                 {/* Distance markers aligned with padded track */}
                 <div className="absolute inset-0 pointer-events-none">
                     {[0, 100, 200, 300, 400, 500].map((d) => (
@@ -112,142 +232,217 @@ const Track: React.FC<TrackProps> = ({ surface, state, params, onFrictionChange,
                     ))}
                 </div>
 
+                {isHanging && (
+                  <HangingMass
+                    blockLeftPercent={visualLeft}
+                    pulleyLeftPercent={100 - VISUAL_PADDING_PERCENT / 2}
+                    progress={progressFraction}
+                    rampAngle={rampAngle}
+                    hangingMass={params.hangingMass}
+                  />
+                )}
+
+                {/* Blocks waiting further along to be hit */}
+                {state.bodies?.slice(1).map((body, i) => (
+                  <div
+                    key={i}
+                    className={`absolute transform -translate-x-1/2 -translate-y-1/2 top-1/2 z-10 w-10 h-10 rounded-lg border-b-4 flex items-center justify-center text-[9px] font-black text-white shadow-sm transition-transform duration-75 ease-linear ${
+                      body.status === 'crossed-finish' ? 'bg-emerald-400 border-emerald-600' : body.velocity !== 0 ? 'bg-amber-400 border-amber-600' : 'bg-slate-400 border-slate-600'
+                    }`}
+                    style={{ left: `${toVisualLeft(body.position)}%` }}
+                    title={`Block ${i + 2}: ${body.velocity.toFixed(2)} m/s`}
+                  >
+                    {body.mass}kg
+                  </div>
+                ))}
+
                 {/* The Object */}
                 <div 
                   className="absolute transform -translate-x-1/2 transition-transform duration-75 ease-linear will-change-transform flex flex-col items-center z-10 top-1/2 -translate-y-1/2"
                   style={{ left: `${visualLeft}%` }}
                 >
-                    <div className="relative group w-fit">
-                        {/* Expressive Block Character */}
-                        <div className="relative z-20 filter drop-shadow-md pb-1">
-                            <div className={`relative w-16 h-16 rounded-2xl flex flex-col items-center justify-center border-b-4 transition-all duration-300 ${
-                                emotion === 'ecstatic' 
-                                    ? 'bg-emerald-400 border-emerald-600 scale-110' 
-                                    : emotion === 'sad' ? 'bg-rose-400 border-rose-600' : 'bg-violet-500 border-violet-700'
-                            }`}>
-                                {/* Eyes */}
-                                <div className="flex gap-4 mb-2">
-                                    <div className="w-3 h-3 bg-white rounded-full flex items-center justify-center relative overflow-hidden">
-                                        <div className={`absolute w-1.5 h-1.5 bg-slate-900 rounded-full transition-all duration-300 ${
-                                          emotion === 'happy' || emotion === 'ecstatic' ? 'translate-y-[-1px]' : 
-                                          emotion === 'sad' ? 'translate-y-[1px]' : ''
-                                        }`}></div>
-                                    </div>
-                                    <div className="w-3 h-3 bg-white rounded-full flex items-center justify-center relative overflow-hidden">
-                                        <div className={`absolute w-1.5 h-1.5 bg-slate-900 rounded-full transition-all duration-300 ${
-                                          emotion === 'happy' || emotion === 'ecstatic' ? 'translate-y-[-1px]' : 
-                                          emotion === 'sad' ? 'translate-y-[1px]' : ''
-                                        }`}></div>
-                                    </div>
-                                </div>
-                                
-                                {/* Mouth: Dynamic based on emotion */}
-                                <div className="relative h-3 flex items-center justify-center">
-                                  {emotion === 'idle' && (
-                                    <div className="w-3 h-1 bg-slate-900/20 rounded-full"></div>
+                    {state.stack ? (
+                      <StackedBlocks surface={surface} state={state} top={state.stack} params={params} showForceValues={showForceValues} />
+                    ) : (
+                      <div className="relative group w-fit">
+                          {/* Expressive Block Character */}
+                          <div className="relative z-20 filter drop-shadow-md pb-1">
+                              <div className={`relative w-16 h-16 rounded-2xl flex flex-col items-center justify-center border-b-4 transition-all duration-300 ${
+                                  emotion === 'ecstatic' 
+                                      ? 'bg-emerald-400 border-emerald-600 scale-110' 
+                                      : emotion === 'sad' ? 'bg-rose-400 border-rose-600' : 'bg-violet-500 border-violet-700'
+                              }`}>
+                                  {/* Eyes */}
+                                  <div className="flex gap-4 mb-2">
+                                      <div className="w-3 h-3 bg-white rounded-full flex items-center justify-center relative overflow-hidden">
+                                          <div className={`absolute w-1.5 h-1.5 bg-slate-900 rounded-full transition-all duration-300 ${
+                                            emotion === 'happy' || emotion === 'ecstatic' ? 'translate-y-[-1px]' : 
+                                            emotion === 'sad' ? 'translate-y-[1px]' : ''
+                                          }`}></div>
+                                      </div>
+                                      <div className="w-3 h-3 bg-white rounded-full flex items-center justify-center relative overflow-hidden">
+                                          <div className={`absolute w-1.5 h-1.5 bg-slate-900 rounded-full transition-all duration-300 ${
+                                            emotion === 'happy' || emotion === 'ecstatic' ? 'translate-y-[-1px]' : 
+                                            emotion === 'sad' ? 'translate-y-[1px]' : ''
+                                          }`}></div>
+                                      </div>
+                                  </div>
+                                  
+                                  {/* Mouth: Dynamic based on emotion */}
+                                  <div className="relative h-3 flex items-center justify-center">
+                                    {emotion === 'idle' && (
+                                      <div className="w-3 h-1 bg-slate-900/20 rounded-full"></div>
+                                    )}
+                                    {emotion === 'happy' && (
+                                      <div className="w-4 h-2 border-b-2 border-slate-900 rounded-full"></div>
+                                    )}
+                                    {emotion === 'sad' && (
+                                      <div className="w-4 h-2 border-t-2 border-slate-900 rounded-full translate-y-1"></div>
+                                    )}
+                                    {emotion === 'neutral' && (
+                                      <div className="w-4 h-0.5 bg-slate-900 rounded-full"></div>
+                                    )}
+                                    {emotion === 'ecstatic' && (
+                                      <div className="w-3 h-3 bg-white/40 rounded-full border border-emerald-600/20"></div>
+                                    )}
+                                  </div>
+
+                                  {/* Mass Text */}
+                                  <span className="relative z-10 text-[10px] font-black text-white/95 mt-1">{params.mass}kg</span>
+
+                                  {liftedOff && (
+                                      <div className="absolute -top-3 -right-3 text-amber-600 bg-white rounded-full p-0.5 shadow-sm border-2 border-amber-100 z-30" title="Lifted off: F·sinφ is greater than the weight on the track">
+                                          <AlertTriangle size={18} />
+                                      </div>
                                   )}
-                                  {emotion === 'happy' && (
-                                    <div className="w-4 h-2 border-b-2 border-slate-900 rounded-full"></div>
+
+                                  {state.status === 'crossed-finish' && (
+                                      <div className="absolute -top-3 -right-3 text-emerald-600 bg-white rounded-full p-0.5 shadow-sm border-2 border-emerald-100 z-30 animate-bounce">
+                                          <CheckCircle size={18} fill="currentColor" className="text-white" />
+                                      </div>
                                   )}
-                                  {emotion === 'sad' && (
-                                    <div className="w-4 h-2 border-t-2 border-slate-900 rounded-full translate-y-1"></div>
+                              </div>
+                          </div>
+                          
+                          {/* Vector Diagram SVG Overlay */}
+                          <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[280px] h-[220px] pointer-events-none z-10 flex items-center justify-center">
+                              <svg width="280" height="220" viewBox="0 0 280 220" className="overflow-visible">
+                                  <defs>
+                                      <marker id="arrow-green" markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
+                                          <path d="M0,0 L0,6 L6,3 z" fill="#22c55e" />
+                                      </marker>
+                                      <marker id="arrow-red" markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
+                                          <path d="M0,0 L0,6 L6,3 z" fill="#ef4444" />
+                                      </marker>
+                                      <marker id="arrow-slate" markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
+                                          <path d="M0,0 L0,6 L6,3 z" fill="#94a3b8" />
+                                      </marker>
+                                      <marker id="arrow-sky" markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
+                                          <path d="M0,0 L0,6 L6,3 z" fill="#0ea5e9" />
+                                      </marker>
+                                  </defs>
+                                  
+                                  <line x1="140" y1="80" x2="140" y2={80 - fNormLen} stroke="#94a3b8" strokeWidth="2" markerEnd="url(#arrow-slate)" />
+                                  <text x="145" y={80 - fNormLen} fontSize="9" fill="#64748b" className="font-mono">
+                                      Fn{showForceValues ? `=${normalVal}N` : ''}
+                                  </text>
+
+                                  <line x1="140" y1="140" x2={140 + fGravLen * gravDirX} y2={140 + fGravLen * gravDirY} stroke="#94a3b8" strokeWidth="2" markerEnd="url(#arrow-slate)" />
+                                  <text x={145 + fGravLen * gravDirX} y={140 + fGravLen * gravDirY + 8} fontSize="9" fill="#64748b" className="font-mono">
+                                      mg{showForceValues ? `=${gravVal}N` : ''}
+                                  </text>
+
+                                  {rampAngle > 0 && (
+                                      <g className="opacity-60">
+                                          {/* Gravity split into along-slope and into-slope components */}
+                                          <line x1="140" y1="140" x2={140 + fGravAlongLen} y2="140" stroke="#94a3b8" strokeWidth="1.5" strokeDasharray="3 2" markerEnd="url(#arrow-slate)" />
+                                          <text x={143 + fGravAlongLen} y="143" fontSize="8" fill="#64748b" className="font-mono">
+                                              mg·sinθ{showForceValues ? `=${gravityAlong.toFixed(1)}N` : ''}
+                                          </text>
+                                          <line x1="132" y1="140" x2="132" y2={140 + fNormLen} stroke="#94a3b8" strokeWidth="1.5" strokeDasharray="3 2" markerEnd="url(#arrow-slate)" />
+                                          <text x="128" y={140 + fNormLen + 8} fontSize="8" fill="#64748b" textAnchor="end" className="font-mono">
+                                              mg·cosθ{showForceValues ? `=${normalVal}N` : ''}
+                                          </text>
+                                      </g>
                                   )}
-                                  {emotion === 'neutral' && (
-                                    <div className="w-4 h-0.5 bg-slate-900 rounded-full"></div>
+
+                                  {pullOnBlock > 0 && (
+                                      <>
+                                          <line x1="175" y1="110" x2={fAppEndX} y2={fAppEndY} stroke="#22c55e" strokeWidth="2" markerEnd="url(#arrow-green)" />
+                                          {showForceValues && (
+                                             <text x={(175 + fAppEndX) / 2} y={Math.min(110, fAppEndY) - 5} fontSize="9" fill="#22c55e" textAnchor="middle" className="font-mono font-bold">
+                                                 {isHanging ? 'T' : 'Fa'}={appVal}N
+                                             </text>
+                                          )}
+                                          {forceAngle !== 0 && (
+                                              <g className="opacity-60">
+                                                  {/* Forward and lifting components of the angled pull */}
+                                                  <line x1="175" y1="110" x2={fAppEndX} y2="110" stroke="#22c55e" strokeWidth="1.5" strokeDasharray="3 2" />
+                                                  <line x1={fAppEndX} y1="110" x2={fAppEndX} y2={fAppEndY} stroke="#22c55e" strokeWidth="1.5" strokeDasharray="3 2" />
+                                                  <text x={fAppEndX + 3} y={(110 + fAppEndY) / 2 + 3} fontSize="8" fill="#16a34a" className="font-mono">
+                                                      F·sinφ{showForceValues ? `=${appLift.toFixed(1)}N` : ''}
+                                                  </text>
+                                                  <text x={(175 + fAppEndX) / 2} y={forceAngle > 0 ? 120 : 103} fontSize="8" fill="#16a34a" textAnchor="middle" className="font-mono">
+                                                      F·cosφ{showForceValues ? `=${appAlong.toFixed(1)}N` : ''}
+                                                  </text>
+                                                  <text x="181" y={forceAngle > 0 ? 106 : 118} fontSize="8" fill="#16a34a" className="font-mono">φ={forceAngle}°</text>
+                                              </g>
+                                          )}
+                                      </>
                                   )}
-                                  {emotion === 'ecstatic' && (
-                                    <div className="w-3 h-3 bg-white/40 rounded-full border border-emerald-600/20"></div>
+
+                                  {state.frictionForce > 0 && (
+                                      <>
+                                          <line x1="105" y1="110" x2={105 - fFricLen} y2="110" stroke="#ef4444" strokeWidth="2" markerEnd="url(#arrow-red)" />
+                                          {showForceValues && (
+                                              <text x={105 - fFricLen/2} y="105" fontSize="9" fill="#ef4444" textAnchor="middle" className="font-mono font-bold">
+                                                  Ff={fricVal}N
+                                              </text>
+                                          )}
+                                      </>
                                   )}
-                                </div>
 
-                                {/* Mass Text */}
-                                <span className="relative z-10 text-[10px] font-black text-white/95 mt-1">{params.mass}kg</span>
+                                  {state.dragForce > 0 && (
+                                      <>
+                                          <line x1="105" y1="92" x2={105 - fDragLen} y2="92" stroke="#0ea5e9" strokeWidth="2" markerEnd="url(#arrow-sky)" />
+                                          <text x={105 - fDragLen/2} y="87" fontSize="9" fill="#0ea5e9" textAnchor="middle" className="font-mono font-bold">
+                                              Fd{showForceValues ? `=${dragVal}N` : ''}
+                                          </text>
+                                      </>
+                                  )}
 
-                                {state.status === 'finished' && (
-                                    <div className="absolute -top-3 -right-3 text-emerald-600 bg-white rounded-full p-0.5 shadow-sm border-2 border-emerald-100 z-30 animate-bounce">
-                                        <CheckCircle size={18} fill="currentColor" className="text-white" />
-                                    </div>
-                                )}
-                            </div>
-                        </div>
-                        
-                        {/* Vector Diagram SVG Overlay */}
-                        <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[280px] h-[220px] pointer-events-none z-10 flex items-center justify-center">
-                            <svg width="280" height="220" viewBox="0 0 280 220" className="overflow-visible">
-                                <defs>
-                                    <marker id="arrow-green" markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
-                                        <path d="M0,0 L0,6 L6,3 z" fill="#22c55e" />
-                                    </marker>
-                                    <marker id="arrow-red" markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
-                                        <path d="M0,0 L0,6 L6,3 z" fill="#ef4444" />
-                                    </marker>
-                                    <marker id="arrow-slate" markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
-                                        <path d="M0,0 L0,6 L6,3 z" fill="#94a3b8" />
-                                    </marker>
-                                </defs>
-                                
-                                <line x1="140" y1="80" x2="140" y2={80 - fNormLen} stroke="#94a3b8" strokeWidth="2" markerEnd="url(#arrow-slate)" />
-                                <text x="145" y={80 - fNormLen} fontSize="9" fill="#64748b" className="font-mono">
-                                    Fn{showForceValues ? `=${normalVal}N` : ''}
-                                </text>
-
-                                <line x1="140" y1="140" x2="140" y2={140 + fGravLen} stroke="#94a3b8" strokeWidth="2" markerEnd="url(#arrow-slate)" />
-                                <text x="145" y={140 + fGravLen + 8} fontSize="9" fill="#64748b" className="font-mono">
-                                    mg{showForceValues ? `=${gravVal}N` : ''}
-                                </text>
-
-                                {state.currentAppliedForce > 0 && (
-                                    <>
-                                        <line x1="175" y1="110" x2={175 + fAppLen} y2="110" stroke="#22c55e" strokeWidth="2" markerEnd="url(#arrow-green)" />
-                                        {showForceValues && (
-                                           <text x={175 + fAppLen/2} y="105" fontSize="9" fill="#22c55e" textAnchor="middle" className="font-mono font-bold">
-                                               Fa={appVal}N
-                                           </text>
-                                        )}
-                                    </>
-                                )}
-
-                                {state.frictionForce > 0 && (
-                                    <>
-                                        <line x1="105" y1="110" x2={105 - fFricLen} y2="110" stroke="#ef4444" strokeWidth="2" markerEnd="url(#arrow-red)" />
-                                        {showForceValues && (
-                                            <text x={105 - fFricLen/2} y="105" fontSize="9" fill="#ef4444" textAnchor="middle" className="font-mono font-bold">
-                                                Ff={fricVal}N
-                                            </text>
-                                        )}
-                                    </>
-                                )}
-
-                                {showStaticLimit && (
-                                    <g className="opacity-40">
-                                        <line 
-                                          x1="105" y1="120" 
-                                          x2={105 - fStaticMaxLen} y2="120" 
-                                          stroke="#ef4444" 
-                                          strokeWidth="1.5" 
-                                          strokeDasharray="3 2" 
-                                          markerEnd="url(#arrow-red)" 
-                                        />
-                                        <text x={105 - fStaticMaxLen} y="115" fontSize="8" fill="#ef4444" textAnchor="end" className="font-mono">
-                                          fs,max{showForceValues ? `=${staticMaxVal}N` : ''}
-                                        </text>
-                                    </g>
-                                )}
-                            </svg>
-                        </div>
-                    </div>
+                                  {showStaticLimit && (
+                                      <g className="opacity-40">
+                                          <line 
+                                            x1="105" y1="120" 
+                                            x2={105 - fStaticMaxLen} y2="120" 
+                                            stroke="#ef4444" 
+                                            strokeWidth="1.5" 
+                                            strokeDasharray="3 2" 
+                                            markerEnd="url(#arrow-red)" 
+                                          />
+                                          <text x={105 - fStaticMaxLen} y="115" fontSize="8" fill="#ef4444" textAnchor="end" className="font-mono">
+                                            fs,max{showForceValues ? `=${staticMaxVal}N` : ''}
+                                          </text>
+                                      </g>
+                                  )}
+                              </svg>
+                          </div>
+                      </div>
+                    )}
                 </div>
             </div>
          </div>
       </div>
 
       {/* RIGHT: Dashboard & Controls */}
-      <div className="w-72 bg-white border-l border-slate-100 flex divide-x divide-slate-100">
+      <div className="w-[26rem] bg-white border-l border-slate-100 flex divide-x divide-slate-100">
           
           <div className="flex-1 p-3 flex flex-col justify-between overflow-hidden">
               <div className="flex items-center gap-2 mb-2">
-                  <span className={`w-3 h-3 rounded-full shrink-0 ${getIndicatorColor(surface.type)}`}></span>
-                  <h3 className="font-bold text-xs text-slate-700 truncate">{surface.type}</h3>
+                  <span className={`w-3 h-3 rounded-full shrink-0 ${surfaceColor.indicator}`}></span>
+                  <h3 className="font-bold text-xs text-slate-700 truncate" title={surface.source ? `${surface.description} (${surface.source})` : surface.description}>{surface.name}</h3>
+                  {liftedOff && <span className="ml-auto text-[9px] font-bold uppercase tracking-wider text-amber-600 whitespace-nowrap">Lifted off</span>}
               </div>
               
               <div className="grid grid-cols-2 gap-2">
@@ -270,33 +465,96 @@ const Track: React.FC<TrackProps> = ({ surface, state, params, onFrictionChange,
                             {netForce.toFixed(1)} N
                         </span>
                       </div>
+                      {state.stack && (
+                        <>
+                          <div className="flex justify-between items-center mt-0.5">
+                            <span className="text-[9px] text-slate-400 uppercase tracking-wider">B: v / f(B–A)</span>
+                            <span className="text-xs font-mono font-bold text-indigo-600">
+                                {state.stack.velocity.toFixed(1)} m/s / {state.stack.frictionForce.toFixed(1)}N
+                            </span>
+                          </div>
+                          <div className="flex justify-between items-center mt-0.5">
+                            <span className="text-[9px] text-slate-400 uppercase tracking-wider">B on A</span>
+                            <span className={`text-[10px] font-bold uppercase tracking-wider ${state.stack.slipping ? 'text-amber-600' : 'text-slate-500'}`}>
+                                {state.status === 'slid-off' ? 'Slid off' : state.stack.slipping ? 'Slipping' : 'Together'}
+                            </span>
+                          </div>
+                        </>
+                      )}
+                      {state.bodies && (
+                        <div className="flex justify-between items-center mt-0.5">
+                          <span className="text-[9px] text-slate-400 uppercase tracking-wider">Impacts / Σp</span>
+                          <span className="text-xs font-mono font-bold text-amber-600">
+                              {state.collisions?.length ?? 0} / {momentum.toFixed(1)} kg·m/s
+                          </span>
+                        </div>
+                      )}
+                      {isHanging && (
+                        <div className="flex justify-between items-center mt-0.5">
+                          <span className="text-[9px] text-slate-400 uppercase tracking-wider">Tension</span>
+                          <span className="text-xs font-mono font-bold text-green-600">
+                              {state.tension.toFixed(1)} N
+                          </span>
+                        </div>
+                      )}
+                      {params.airDrag && (
+                        <div className="flex justify-between items-center mt-0.5">
+                          <span className="text-[9px] text-slate-400 uppercase tracking-wider">Terminal v</span>
+                          <span className="text-xs font-mono font-bold text-sky-600">
+                              {terminalVelocity.toFixed(1)} m/s
+                          </span>
+                        </div>
+                      )}
                       <div className="flex justify-between items-center mt-0.5 pt-1 border-t border-slate-50/50">
-                        <span className="text-[9px] text-slate-400 uppercase tracking-wider">Coeffs (μs / μk)</span>
+                        <span className="text-[9px] text-slate-400 uppercase tracking-wider truncate" title={patched ? 'Coefficients under the block right now' : undefined}>
+                            {patched ? `On ${currentSegment.name}` : 'Coeffs (μs / μk)'}
+                        </span>
                         <span className="text-[10px] font-mono font-bold text-indigo-600">
-                            {surface.staticFrictionCoeff.toFixed(2)} / {surface.kineticFrictionCoeff.toFixed(2)}
+                            {here.staticFrictionCoeff.toFixed(2)} / {here.kineticFrictionCoeff.toFixed(2)}
                         </span>
                       </div>
                   </div>
               </div>
           </div>
 
-          <div className="w-16 bg-slate-50 flex flex-col items-center justify-between py-3 relative shrink-0">
-             <label htmlFor={`slider-${surface.type}`} className="text-[10px] font-bold text-slate-500">μk</label>
-             <div className="flex-1 w-full flex items-center justify-center relative">
-                <input 
-                    id={`slider-${surface.type}`}
-                    type="range" 
-                    min={surface.frictionRange[0]} 
-                    max={surface.frictionRange[1]} 
-                    step="0.01"
-                    value={surface.kineticFrictionCoeff}
-                    onChange={handleFrictionChange}
-                    disabled={readOnly}
-                    className="absolute h-1.5 bg-slate-300 rounded-lg appearance-none cursor-pointer accent-indigo-600 origin-center -rotate-90"
-                    style={{ width: '80px' }} 
-                 />
+          <div className="w-28 px-2 flex items-center justify-center shrink-0">
+             <FrictionCurve surface={here} normalForce={normalForce} velocity={state.velocity} />
+          </div>
+
+          <div className="w-28 bg-slate-50 flex flex-col items-center py-2 relative shrink-0">
+             <button
+                onClick={() => onToggleLock?.(surface.id)}
+                disabled={readOnly}
+                className={`flex items-center gap-1 text-[9px] font-bold uppercase tracking-wide px-1.5 py-0.5 rounded ${locked ? 'text-indigo-600 bg-indigo-50' : 'text-slate-400 hover:text-slate-600'} disabled:opacity-50`}
+                title={locked ? `μs is locked to μk + ${STATIC_FRICTION_OFFSET}` : 'μs and μk are set independently'}
+             >
+                {locked ? <Lock size={10} /> : <Unlock size={10} />} {locked ? `+${STATIC_FRICTION_OFFSET}` : 'Free'}
+             </button>
+             <div className="flex-1 w-full flex">
+                {([
+                  { key: 'static', label: 'μs', min: surface.frictionRange[0], max: staticMax, value: surface.staticFrictionCoeff },
+                  { key: 'kinetic', label: 'μk', min: surface.frictionRange[0], max: surface.frictionRange[1], value: surface.kineticFrictionCoeff }
+                ] as const).map(slider => (
+                  <div key={slider.key} className="flex-1 flex flex-col items-center justify-between pt-1">
+                     <label htmlFor={`slider-${slider.key}-${surface.id}`} className="text-[10px] font-bold text-slate-500">{slider.label}</label>
+                     <div className="flex-1 w-full flex items-center justify-center relative">
+                        <input
+                            id={`slider-${slider.key}-${surface.id}`}
+                            type="range"
+                            min={slider.min}
+                            max={slider.max}
+                            step="0.01"
+                            value={slider.value}
+                            onChange={handleFrictionChange(slider.key)}
+                            disabled={readOnly}
+                            className="absolute h-1.5 bg-slate-300 rounded-lg appearance-none cursor-pointer accent-indigo-600 origin-center -rotate-90"
+                            style={{ width: '80px' }}
+                         />
+                     </div>
+                     <span className="text-[11px] font-mono font-bold text-indigo-600">{slider.value.toFixed(2)}</span>
+                  </div>
+                ))}
              </div>
-             <span className="text-[11px] font-mono font-bold text-indigo-600">{surface.kineticFrictionCoeff.toFixed(2)}</span>
           </div>
 
       </div>
@@ -0,0 +1,125 @@
+import React from 'react';
+import { SurfaceConfig, Trajectory, TrajectorySample } from '../types';
+import { getSurfaceColor } from '../services/surfaceLibrary';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Activity, MoveRight, Gauge, TrendingUp } from 'lucide-react';
+
+interface TrajectoryChartsProps {
+  surfaces: SurfaceConfig[];
+  trajectories: Trajectory[];
+}
+
+const MAX_POINTS = 300; // per line, keeps recharts responsive on long runs
+
+// Keeps every k-th sample plus the last one so the end state is always drawn
+const downsample = (samples: TrajectorySample[]): TrajectorySample[] => {
+  if (samples.length <= MAX_POINTS) return samples;
+  const stride = Math.ceil(samples.length / MAX_POINTS);
+  const picked = samples.filter((_, i) => i % stride === 0);
+  if (picked[picked.length - 1] !== samples[samples.length - 1]) picked.push(samples[samples.length - 1]);
+  return picked;
+};
+
+interface Series {
+  key: string;
+  name: string;
+  color: string;
+  data: TrajectorySample[];
+  dataKey: keyof TrajectorySample | ((p: TrajectorySample) => number | undefined);
+  dash?: string; // SVG stroke-dasharray
+}
+
+interface SeriesChartProps {
+  title: string;
+  icon: React.ReactNode;
+  series: Series[];
+  stepped?: boolean; // forces switch on/off, so draw them as steps
+}
+
+const SeriesChart: React.FC<SeriesChartProps> = ({ title, icon, series, stepped }) => (
+  <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
+    <h3 className="text-lg font-semibold text-slate-800 mb-4 flex items-center gap-2">
+      {icon} {title}
+    </h3>
+    <div className="h-56">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="time" type="number" domain={[0, 'dataMax']} allowDuplicatedCategory={false} tickFormatter={(t: number) => t.toFixed(1)} unit="s" />
+          <YAxis tickFormatter={(v: number) => v.toFixed(0)} width={45} />
+          <Tooltip
+            labelFormatter={(t) => `t = ${Number(t).toFixed(2)} s`}
+            formatter={(v) => Number(v).toFixed(2)}
+            contentStyle={{borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)'}}
+          />
+          <Legend />
+          {series.map(s => (
+            <Line
+              key={s.key}
+              data={s.data}
+              dataKey={s.dataKey}
+              name={s.name}
+              stroke={s.color}
+              strokeWidth={2}
+              strokeDasharray={s.dash}
+              type={stepped ? 'stepAfter' : 'linear'}
+              dot={false}
+              isAnimationActive={false}
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  </div>
+);
+
+const TrajectoryCharts: React.FC<TrajectoryChartsProps> = ({ surfaces, trajectories }) => {
+  const lines = trajectories.map(t => {
+    const surface = surfaces.find(s => s.id === t.surfaceId)!;
+    return { key: t.surfaceId, name: surface.name, color: getSurfaceColor(surface.color).hex, data: downsample(t.samples) };
+  });
+  const linesOf = (dataKey: keyof TrajectorySample): Series[] => lines.map(l => ({ ...l, dataKey }));
+
+  // On a multi-body track every block after the pushed one gets a dashed line
+  const bodyCount = Math.max(0, ...trajectories.map(t => t.samples[0]?.bodyPositions?.length ?? 0));
+  const withBodies = (base: Series[], values: 'bodyPositions' | 'bodyVelocities'): Series[] => bodyCount < 2
+    ? base
+    : base.flatMap(l => [
+        l,
+        ...Array.from({ length: bodyCount - 1 }, (_, i): Series => ({
+          ...l,
+          key: `${l.key}-body${i + 1}`,
+          name: `${l.name} #${i + 2}`,
+          dataKey: (p: TrajectorySample) => p[values]?.[i + 1],
+          dash: '4 3'
+        }))
+      ]);
+
+  // A stack's top block gets its own dashed speed line
+  const hasStack = trajectories.some(t => t.samples.some(p => p.topVelocity !== undefined));
+  const velocityLines: Series[] = hasStack
+    ? lines.flatMap(l => [
+        { ...l, name: `${l.name} A`, dataKey: 'velocity' as const },
+        { ...l, key: `${l.key}-top`, name: `${l.name} B`, dataKey: 'topVelocity' as const, dash: '4 3' }
+      ])
+    : withBodies(linesOf('velocity'), 'bodyVelocities');
+
+  // Applied force solid, friction dashed and drag dotted in the same surface color
+  const hasDrag = trajectories.some(t => t.samples.some(p => p.dragForce > 0));
+  const forceLines: Series[] = lines.flatMap(l => [
+    { ...l, key: `${l.key}-applied`, name: `${l.name} Fa`, dataKey: 'appliedForce' as const },
+    { ...l, key: `${l.key}-friction`, name: `${l.name} Ff`, dataKey: 'frictionForce' as const, dash: '4 3' },
+    ...(hasDrag ? [{ ...l, key: `${l.key}-drag`, name: `${l.name} Fd`, dataKey: 'dragForce' as const, dash: '1 3' }] : [])
+  ]);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+      <SeriesChart title="Position x(t) (m)" icon={<MoveRight size={20} className="text-indigo-500" />} series={withBodies(linesOf('position'), 'bodyPositions')} />
+      <SeriesChart title="Velocity v(t) (m/s)" icon={<Gauge size={20} className="text-emerald-500" />} series={velocityLines} />
+      <SeriesChart title="Acceleration a(t) (m/s²)" icon={<TrendingUp size={20} className="text-amber-500" />} series={linesOf('acceleration')} stepped />
+      <SeriesChart title="Forces F(t) (N)" icon={<Activity size={20} className="text-rose-500" />} series={forceLines} stepped />
+    </div>
+  );
+};
+
+export default TrajectoryCharts;
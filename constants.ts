@@ -1,40 +1,118 @@
 
-import { SurfaceConfig, SurfaceType, ForceMode } from './types';
+import { SurfaceConfig, SurfaceColor, ForceMode, IntegratorType, ForceProfile, StackConfig, CollisionConfig } from './types';
 
 export const GRAVITY = 9.81; // m/s^2
+export const IMPULSE_DURATION = 0.5; // Seconds for the "Initial Push" option
+export const SIMULATION_TIME_STEP = 0.016; // Fixed engine step (seconds)
+export const MAX_SIMULATION_TIME = 600; // Safety cap so a run always terminates (seconds)
+export const STATIC_FRICTION_OFFSET = 0.1; // mu_s - mu_k while a track's coefficients are locked
+export const REFERENCE_TIME_STEP = 0.001; // Step for the RK4 reference run when there's no closed form (seconds)
+export const FRICTION_PLOT_MAX_SPEED = 5; // Right edge of each track's mu(v) plot (m/s)
+export const ENERGY_TOLERANCE = 0.05; // Allowed work-energy residual as a fraction of the work done
+export const PLAYBACK_SPEEDS = [0.1, 0.25, 0.5, 1, 2, 5, 10, 20]; // Replay rates, sim seconds per real second
+export const DEFAULT_PLAYBACK_SPEED = 5; // Speeds the replay up so a run doesn't drag
+
+// Tailwind classes for the track and its dot, plus a hex for charts
+export const SURFACE_COLORS: Record<SurfaceColor, { track: string; indicator: string; hex: string }> = {
+  cyan: { track: 'bg-cyan-200 border-cyan-400', indicator: 'bg-cyan-500', hex: '#06b6d4' },
+  slate: { track: 'bg-slate-300 border-slate-500', indicator: 'bg-slate-500', hex: '#64748b' },
+  orange: { track: 'bg-orange-200 border-orange-500', indicator: 'bg-orange-500', hex: '#f97316' },
+  emerald: { track: 'bg-emerald-200 border-emerald-500', indicator: 'bg-emerald-500', hex: '#10b981' },
+  rose: { track: 'bg-rose-200 border-rose-400', indicator: 'bg-rose-500', hex: '#f43f5e' },
+  violet: { track: 'bg-violet-200 border-violet-400', indicator: 'bg-violet-500', hex: '#8b5cf6' },
+  amber: { track: 'bg-amber-200 border-amber-500', indicator: 'bg-amber-500', hex: '#f59e0b' },
+  sky: { track: 'bg-sky-200 border-sky-400', indicator: 'bg-sky-500', hex: '#0ea5e9' }
+};
 
 export const SURFACES: SurfaceConfig[] = [
   {
-    type: SurfaceType.ICE,
+    id: 'ice',
+    name: 'Ice',
     staticFrictionCoeff: 0.2,
     kineticFrictionCoeff: 0.1,
     frictionRange: [0.1, 0.3],
-    color: 'bg-cyan-200 border-cyan-400',
+    color: 'cyan',
+    lockStaticOffset: true,
     description: 'Very smooth surface with minimal resistance.'
   },
   {
-    type: SurfaceType.NORMAL,
+    id: 'floor',
+    name: 'Floor',
     staticFrictionCoeff: 0.4,
     kineticFrictionCoeff: 0.3,
     frictionRange: [0.3, 0.6],
-    color: 'bg-slate-300 border-slate-500',
+    color: 'slate',
+    lockStaticOffset: true,
     description: 'Standard floor surface like wood or tile.'
   },
   {
-    type: SurfaceType.ROUGH,
+    id: 'rough',
+    name: 'Rough (like Sandpaper)',
     staticFrictionCoeff: 0.7,
     kineticFrictionCoeff: 0.6,
     frictionRange: [0.6, 1.0],
-    color: 'bg-orange-200 border-orange-500',
+    color: 'orange',
+    lockStaticOffset: true,
     description: 'High friction surface similar to sandpaper or heavy rubber.'
   }
 ];
 
+export const SURFACE_LIBRARY_STORAGE_KEY = 'frictionlab.surfaces';
+export const RUN_HISTORY_STORAGE_KEY = 'frictionlab.runs';
+export const MAX_RUN_HISTORY = 20; // oldest runs drop off past this, localStorage is small
+export const TUTOR_SETTINGS_STORAGE_KEY = 'frictionlab.tutor';
+export const EXPERIMENT_HASH_KEY = 'experiment'; // #experiment=<base64url JSON> in shared links
+
+// A slow ramp up to a hold, so the moment of breakaway is easy to spot
+export const DEFAULT_FORCE_PROFILE: ForceProfile = {
+  variable: 't',
+  kind: 'segments',
+  segments: [
+    { type: 'ramp', length: 10, from: 0, to: 100 },
+    { type: 'hold', length: 20, value: 100 }
+  ],
+  expression: '200*sin(t)',
+  expressionEnd: 30 // s
+};
+
+// A rubber-footed crate B on a pallet A that gets the push. It grips well
+// enough to ride along under the default push, even on ice
+export const DEFAULT_STACK: StackConfig = {
+  enabled: false,
+  topMass: 5, // kg
+  staticFrictionCoeff: 1.0,
+  kineticFrictionCoeff: 0.8,
+  pushOn: 'bottom',
+  bottomLength: 1 // m
+};
+
+// One resting block a short slide away, hit half-elastically
+export const DEFAULT_COLLISION: CollisionConfig = {
+  enabled: false,
+  restitution: 0.5,
+  targets: [{ mass: 10, position: 10 }]
+};
+
 export const INITIAL_PARAMS = {
   mass: 10, // kg
   distance: 500, // m
   appliedForce: 150, // N
   forceMode: 'continuous' as ForceMode,
   forceDuration: 5.0, // s
-  forceDistanceLimit: 100 // m
+  forceDistanceLimit: 100, // m
+  rampAngle: 0, // degrees
+  forceAngle: 0, // degrees
+  integrator: 'semi-implicit-euler' as IntegratorType,
+  timeStep: SIMULATION_TIME_STEP, // s
+  snapToExact: false,
+  forceProfile: DEFAULT_FORCE_PROFILE,
+  airDrag: false,
+  airDensity: 1.225, // kg/m^3, sea level
+  dragCoefficient: 1.05, // cube face-on
+  frontalArea: 0.1, // m^2
+  stack: DEFAULT_STACK,
+  collision: DEFAULT_COLLISION,
+  hangingMass: 5, // kg
+  pulleyInertia: 0, // kg·m^2, ideal pulley
+  pulleyRadius: 0.1 // m
 };
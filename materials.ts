@@ -0,0 +1,173 @@
+import { MaterialPair } from './types';
+
+// Published dry-contact coefficients. Real values vary with surface finish,
+// temperature and contamination, so each pair gets a slider range around them.
+
+const OPENSTAX = 'OpenStax College Physics 2e, Table 5.1';
+const SERWAY = 'Serway & Jewett, Physics for Scientists and Engineers, Table 5.1';
+const TIRES = 'Typical tire-road values, vehicle dynamics references';
+
+export const MATERIAL_PAIRS: MaterialPair[] = [
+  {
+    id: 'steel-steel-dry',
+    name: 'Steel on steel (dry)',
+    staticFrictionCoeff: 0.6,
+    kineticFrictionCoeff: 0.3,
+    frictionRange: [0.2, 0.6],
+    description: 'Clean, unlubricated machine parts.',
+    source: OPENSTAX
+  },
+  {
+    id: 'steel-steel-oiled',
+    name: 'Steel on steel (oiled)',
+    staticFrictionCoeff: 0.05,
+    kineticFrictionCoeff: 0.03,
+    frictionRange: [0.01, 0.1],
+    description: 'Lubricated bearings and slides.',
+    source: OPENSTAX
+  },
+  {
+    id: 'aluminum-steel',
+    name: 'Aluminum on steel',
+    staticFrictionCoeff: 0.61,
+    kineticFrictionCoeff: 0.47,
+    frictionRange: [0.3, 0.6],
+    description: 'Dry aluminum block on a steel bench.',
+    source: SERWAY
+  },
+  {
+    id: 'copper-steel',
+    name: 'Copper on steel',
+    staticFrictionCoeff: 0.53,
+    kineticFrictionCoeff: 0.36,
+    frictionRange: [0.2, 0.5],
+    description: 'Dry copper block on a steel bench.',
+    source: SERWAY
+  },
+  {
+    id: 'glass-glass',
+    name: 'Glass on glass',
+    staticFrictionCoeff: 0.94,
+    kineticFrictionCoeff: 0.4,
+    frictionRange: [0.3, 0.6],
+    description: 'Clean glass plates; the large μs − μk gap makes it jerky.',
+    source: SERWAY
+  },
+  {
+    id: 'rubber-asphalt-dry',
+    name: 'Rubber on dry asphalt',
+    staticFrictionCoeff: 0.9,
+    kineticFrictionCoeff: 0.75,
+    frictionRange: [0.5, 0.9],
+    description: 'Car tire on a dry road (peak grip vs locked-wheel skid).',
+    source: TIRES
+  },
+  {
+    id: 'rubber-asphalt-wet',
+    name: 'Rubber on wet asphalt',
+    staticFrictionCoeff: 0.6,
+    kineticFrictionCoeff: 0.5,
+    frictionRange: [0.3, 0.6],
+    description: 'Car tire on a rain-soaked road.',
+    source: TIRES
+  },
+  {
+    id: 'rubber-concrete-dry',
+    name: 'Rubber on dry concrete',
+    staticFrictionCoeff: 1.0,
+    kineticFrictionCoeff: 0.7,
+    frictionRange: [0.5, 1.0],
+    description: 'Sneaker sole or tire on a dry sidewalk.',
+    source: OPENSTAX
+  },
+  {
+    id: 'rubber-concrete-wet',
+    name: 'Rubber on wet concrete',
+    staticFrictionCoeff: 0.7,
+    kineticFrictionCoeff: 0.5,
+    frictionRange: [0.3, 0.7],
+    description: 'Sneaker sole or tire on a wet sidewalk.',
+    source: OPENSTAX
+  },
+  {
+    id: 'wood-wood',
+    name: 'Wood on wood',
+    staticFrictionCoeff: 0.5,
+    kineticFrictionCoeff: 0.3,
+    frictionRange: [0.2, 0.5],
+    description: 'A wooden crate on a wooden floor.',
+    source: OPENSTAX
+  },
+  {
+    id: 'waxed-wood-wet-snow',
+    name: 'Waxed wood on wet snow',
+    staticFrictionCoeff: 0.14,
+    kineticFrictionCoeff: 0.1,
+    frictionRange: [0.05, 0.2],
+    description: 'Waxed skis or a toboggan on wet snow.',
+    source: OPENSTAX
+  },
+  {
+    id: 'metal-wood',
+    name: 'Metal on wood',
+    staticFrictionCoeff: 0.5,
+    kineticFrictionCoeff: 0.3,
+    frictionRange: [0.2, 0.5],
+    description: 'A steel toolbox on a wooden workbench.',
+    source: OPENSTAX
+  },
+  {
+    id: 'teflon-steel',
+    name: 'Teflon on steel',
+    staticFrictionCoeff: 0.04,
+    kineticFrictionCoeff: 0.04,
+    frictionRange: [0.01, 0.1],
+    description: 'Non-stick coating; static and kinetic are almost equal.',
+    source: OPENSTAX
+  },
+  {
+    id: 'shoes-wood',
+    name: 'Shoes on wood',
+    staticFrictionCoeff: 0.9,
+    kineticFrictionCoeff: 0.7,
+    frictionRange: [0.5, 0.9],
+    description: 'Street shoes on a gym floor.',
+    source: OPENSTAX
+  },
+  {
+    id: 'shoes-ice',
+    name: 'Shoes on ice',
+    staticFrictionCoeff: 0.1,
+    kineticFrictionCoeff: 0.05,
+    frictionRange: [0.02, 0.1],
+    description: 'Walking across a frozen pond.',
+    source: OPENSTAX
+  },
+  {
+    id: 'ice-ice',
+    name: 'Ice on ice',
+    staticFrictionCoeff: 0.1,
+    kineticFrictionCoeff: 0.03,
+    frictionRange: [0.01, 0.1],
+    description: 'Two blocks of ice sliding over each other.',
+    source: OPENSTAX
+  },
+  {
+    id: 'steel-ice',
+    name: 'Steel on ice',
+    staticFrictionCoeff: 0.4,
+    kineticFrictionCoeff: 0.02,
+    frictionRange: [0.01, 0.1],
+    description: 'Ice-skate blade: hard to start, very easy to keep going.',
+    source: OPENSTAX
+  },
+  {
+    id: 'bone-synovial',
+    name: 'Bone on bone (synovial fluid)',
+    staticFrictionCoeff: 0.016,
+    kineticFrictionCoeff: 0.015,
+    frictionRange: [0.005, 0.05],
+    description: 'Lubricated human joints, among the slipperiest contacts known.',
+    source: OPENSTAX
+  }
+];
@@ -0,0 +1,144 @@
+import { SimulationParams, SurfaceConfig, AnalyticSolution, MotionPhase } from "../types";
+import { IMPULSE_DURATION } from "../constants";
+import { getNormalForce, getGravityAlongSlope, getPushAlong, getHangingWeight, getInertialMass } from "./forces";
+
+// Exact solution for Coulomb friction with a constant push: the motion is
+// constant acceleration while the force is on, and a second constant
+// acceleration (friction plus any slope) after.
+
+// Smallest t >= 0 with v0*t + a*t^2/2 = dx, or Infinity if never reached
+export const timeToTravel = (v0: number, a: number, dx: number): number => {
+  if (dx <= 0) return 0;
+  if (a === 0) return v0 > 0 ? dx / v0 : Infinity;
+  const disc = v0 * v0 + 2 * a * dx;
+  if (disc < 0) return Infinity;
+  const t = (-v0 + Math.sqrt(disc)) / a;
+  return t >= 0 ? t : Infinity;
+};
+
+const NO_MOTION: AnalyticSolution = {
+  didMove: false,
+  reachedFinish: false,
+  stopTime: 0,
+  stopDistance: 0,
+  maxVelocity: 0,
+  events: { breakaway: null, forceCutoff: null, finishCrossing: null, rest: null },
+  phases: []
+};
+
+const phaseEnd = (phase: MotionPhase) => {
+  const t = phase.endTime - phase.startTime;
+  return {
+    position: phase.startPosition + phase.startVelocity * t + 0.5 * phase.acceleration * t * t,
+    velocity: phase.startVelocity + phase.acceleration * t
+  };
+};
+
+export const solveAnalytic = (surface: SurfaceConfig, params: SimulationParams): AnalyticSolution => {
+  const normalForce = getNormalForce(surface, params);
+  const gravityAlong = getGravityAlongSlope(surface, params);
+  const maxStaticFriction = surface.staticFrictionCoeff * normalForce;
+  const kineticFriction = surface.kineticFrictionCoeff * normalForce;
+  const finish = params.distance;
+  // A hanging mass is a constant pull that never lets go, but it adds its own inertia
+  const push = params.forceMode === 'hanging' ? getHangingWeight(params) : params.appliedForce;
+  const inertialMass = getInertialMass(params);
+  // Acceleration once the push is off (negative unless the slope beats friction)
+  const a2 = (gravityAlong - kineticFriction) / inertialMass;
+
+  // Force-on phase: ends at a time or a position depending on the mode
+  let cutoffTime = Infinity;
+  switch (params.forceMode) {
+    case 'impulse':
+      cutoffTime = IMPULSE_DURATION;
+      break;
+    case 'timed':
+      cutoffTime = params.forceDuration;
+      break;
+  }
+  const forceOnAtStart = cutoffTime > 0 && (params.forceMode !== 'distance' || params.forceDistanceLimit > 0);
+
+  // An angled push changes the normal force, and with it friction, while it acts
+  const pushedNormal = getNormalForce(surface, params, push);
+  if (forceOnAtStart && pushedNormal < 0) return NO_MOTION; // lifted off the track
+  const pushAlong = getPushAlong(params, push);
+  const pushBreaksFree = forceOnAtStart && pushAlong + gravityAlong > surface.staticFrictionCoeff * pushedNormal;
+
+  if (!pushBreaksFree) {
+    // A steep enough ramp slides on its own: tanθ > μs
+    if (gravityAlong <= maxStaticFriction || a2 <= 0) return NO_MOTION;
+    const slideFinish = timeToTravel(0, a2, finish);
+    return {
+      didMove: true,
+      reachedFinish: true,
+      stopTime: slideFinish,
+      stopDistance: finish,
+      maxVelocity: a2 * slideFinish,
+      events: { breakaway: 0, forceCutoff: null, finishCrossing: slideFinish, rest: null },
+      phases: [{ startTime: 0, endTime: slideFinish, startPosition: 0, startVelocity: 0, acceleration: a2 }]
+    };
+  }
+
+  const a1 = (pushAlong + gravityAlong - surface.kineticFrictionCoeff * pushedNormal) / inertialMass;
+  if (a1 <= 0) {
+    // Only possible when mu_s < mu_k: it breaks free but cannot accelerate
+    return NO_MOTION;
+  }
+  if (params.forceMode === 'distance') {
+    cutoffTime = timeToTravel(0, a1, params.forceDistanceLimit);
+  }
+
+  const finishTime = timeToTravel(0, a1, finish);
+  if (finishTime <= cutoffTime) {
+    return {
+      didMove: true,
+      reachedFinish: true,
+      stopTime: finishTime,
+      stopDistance: finish,
+      maxVelocity: a1 * finishTime,
+      events: { breakaway: 0, forceCutoff: null, finishCrossing: finishTime, rest: null },
+      phases: [{ startTime: 0, endTime: finishTime, startPosition: 0, startVelocity: 0, acceleration: a1 }]
+    };
+  }
+
+  // Coasting phase under kinetic friction (and the slope) alone
+  const pushPhase: MotionPhase = { startTime: 0, endTime: cutoffTime, startPosition: 0, startVelocity: 0, acceleration: a1 };
+  const { position: x1, velocity: v1 } = phaseEnd(pushPhase);
+  const coastFinish = timeToTravel(v1, a2, finish - x1);
+  const coastRest = a2 < 0 ? v1 / -a2 : Infinity;
+  const reachedFinish = coastFinish <= coastRest;
+  const stopTime = cutoffTime + (reachedFinish ? coastFinish : coastRest);
+  const coastPhase: MotionPhase = { startTime: cutoffTime, endTime: stopTime, startPosition: x1, startVelocity: v1, acceleration: a2 };
+
+  return {
+    didMove: true,
+    reachedFinish,
+    stopTime,
+    stopDistance: reachedFinish ? finish : phaseEnd(coastPhase).position,
+    maxVelocity: reachedFinish && a2 > 0 ? phaseEnd(coastPhase).velocity : v1,
+    events: {
+      breakaway: 0,
+      forceCutoff: cutoffTime,
+      finishCrossing: reachedFinish ? stopTime : null,
+      rest: reachedFinish ? null : stopTime
+    },
+    phases: [pushPhase, coastPhase]
+  };
+};
+
+// Exact state at time t (clamped to the start and the end of the motion)
+const stateAt = (solution: AnalyticSolution, t: number) => {
+  const { phases } = solution;
+  if (phases.length === 0 || t <= 0) return { position: 0, velocity: 0 };
+  const phase = phases.find(p => t <= p.endTime) ?? phases[phases.length - 1];
+  const tc = Math.min(t, phase.endTime) - phase.startTime;
+  const atRest = solution.events.rest !== null && t >= solution.events.rest;
+  return {
+    position: phase.startPosition + phase.startVelocity * tc + 0.5 * phase.acceleration * tc * tc,
+    velocity: atRest ? 0 : phase.startVelocity + phase.acceleration * tc
+  };
+};
+
+export const positionAt = (solution: AnalyticSolution, t: number): number => stateAt(solution, t).position;
+
+export const velocityAt = (solution: AnalyticSolution, t: number): number => stateAt(solution, t).velocity;
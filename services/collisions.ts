@@ -0,0 +1,71 @@
+import { CollisionConfig, SimulationParams, SurfaceConfig } from "../types";
+import { getNormalForce, getGravityAlongSlope, getPushAlong, getDragForce } from "./forces";
+import { getSlidingFriction } from "./frictionModels";
+
+// Several blocks on one track that can run into each other. Every block
+// slides on the same surface; only the first one is pushed.
+
+export interface ImpactVelocities {
+  rear: number; // m/s
+  front: number; // m/s
+}
+
+/**
+ * Instantaneous head-on impact with coefficient of restitution `e`. Momentum
+ * is conserved, and the blocks separate at e times the speed they closed at.
+ */
+export const resolveImpact = (rearMass: number, rearVelocity: number, frontMass: number, frontVelocity: number, e: number): ImpactVelocities => {
+  const momentum = rearMass * rearVelocity + frontMass * frontVelocity;
+  const closing = rearVelocity - frontVelocity;
+  const total = rearMass + frontMass;
+  return {
+    rear: (momentum - frontMass * e * closing) / total,
+    front: (momentum + rearMass * e * closing) / total
+  };
+};
+
+export interface BodyForces {
+  acceleration: number; // m/s^2
+  friction: number; // Newtons, magnitude
+  drag: number; // Newtons, magnitude
+}
+
+/**
+ * Forces on one block of `mass` on the track, with `push` acting only on the
+ * pushed block. Friction opposes the motion either way, so a block knocked
+ * backwards is slowed down too. At rest it stays put while mu_s·N holds.
+ */
+export const getBodyForces = (
+  surface: SurfaceConfig,
+  params: SimulationParams,
+  mass: number,
+  velocity: number,
+  push: number
+): BodyForces => {
+  const bodyParams = { ...params, mass };
+  const normalForce = getNormalForce(surface, bodyParams, push);
+  const drive = getPushAlong(params, push) + getGravityAlongSlope(surface, bodyParams);
+  if (velocity === 0) {
+    if (Math.abs(drive) <= surface.staticFrictionCoeff * normalForce) return { acceleration: 0, friction: Math.abs(drive), drag: 0 };
+    const friction = getSlidingFriction(surface, normalForce, 0);
+    return { acceleration: (drive - Math.sign(drive) * friction) / mass, friction, drag: 0 };
+  }
+  const friction = getSlidingFriction(surface, normalForce, Math.abs(velocity));
+  const drag = getDragForce(params, velocity);
+  return { acceleration: (drive - Math.sign(velocity) * (friction + drag)) / mass, friction, drag };
+};
+
+export const validateCollision = (config: CollisionConfig, distance: number): string[] => {
+  const errors: string[] = [];
+  if (!Number.isFinite(config.restitution) || config.restitution < 0 || config.restitution > 1) {
+    errors.push('Restitution must be between 0 and 1.');
+  }
+  if (config.targets.length === 0) errors.push('Add at least one block to hit.');
+  config.targets.forEach((target, i) => {
+    if (!Number.isFinite(target.mass) || target.mass <= 0) errors.push(`Block ${i + 2}: mass must be greater than 0.`);
+    if (!Number.isFinite(target.position) || target.position <= 0 || target.position >= distance) {
+      errors.push(`Block ${i + 2}: position must be between the start and the finish.`);
+    }
+  });
+  return errors;
+};
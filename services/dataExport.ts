@@ -0,0 +1,175 @@
+import { SimulationParams, SurfaceConfig, SimulationResult, Trajectory, TrajectorySample } from "../types";
+import { EXPERIMENT_VERSION } from "./experimentFile";
+
+// Spreadsheet-friendly downloads of a finished run. Every file carries the
+// params and surfaces that produced it, so it still makes sense on its own.
+
+export type ExportFormat = 'csv' | 'json';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  precision: number; // decimal places
+  sampleInterval: number; // seconds between trajectory rows, 0 for every engine step
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = { format: 'csv', precision: 4, sampleInterval: 0.1 };
+
+interface Column<T> {
+  key: string; // JSON field name
+  label: string; // CSV header, with the unit appended
+  unit: string;
+  value: (row: T) => number | string | boolean | null;
+}
+
+const RESULT_COLUMNS: Column<SimulationResult>[] = [
+  { key: 'surface', label: 'Surface', unit: '', value: r => r.surface },
+  { key: 'status', label: 'Status', unit: '', value: r => r.status },
+  { key: 'completed', label: 'Completed', unit: '', value: r => r.completed },
+  { key: 'finishTime', label: 'Finish Time', unit: 's', value: r => (r.completed ? r.finalTime : null) },
+  { key: 'stopPosition', label: 'Stop Position', unit: 'm', value: r => r.stopPosition },
+  { key: 'breakawayTime', label: 'Breakaway Time', unit: 's', value: r => r.breakawayTime },
+  { key: 'maxVelocity', label: 'Max Velocity', unit: 'm/s', value: r => r.maxVelocity },
+  { key: 'peakAcceleration', label: 'Peak Acceleration', unit: 'm/s^2', value: r => r.peakAcceleration },
+  { key: 'appliedForce', label: 'Applied Force', unit: 'N', value: r => r.appliedForce },
+  { key: 'staticFrictionLimit', label: 'Static Friction Limit', unit: 'N', value: r => r.staticFrictionLimit },
+  { key: 'breakawayForce', label: 'Breakaway Force', unit: 'N', value: r => r.breakawayForce },
+  { key: 'minBreakawayForce', label: 'Min Breakaway Force', unit: 'N', value: r => r.minBreakawayForce },
+  { key: 'optimalForceAngle', label: 'Optimal Pull Angle', unit: 'deg', value: r => r.optimalForceAngle },
+  { key: 'tension', label: 'Mean Tension', unit: 'N', value: r => r.tension },
+  { key: 'workApplied', label: 'Work Applied', unit: 'J', value: r => r.energy.workApplied },
+  { key: 'workGravity', label: 'Work by Gravity', unit: 'J', value: r => r.energy.workGravity },
+  { key: 'heat', label: 'Heat', unit: 'J', value: r => r.energy.workFriction },
+  { key: 'dragLoss', label: 'Drag Loss', unit: 'J', value: r => r.energy.workDrag },
+  { key: 'collisionLoss', label: 'Collision Loss', unit: 'J', value: r => r.energy.workCollision },
+  { key: 'kineticEnergy', label: 'Final Kinetic Energy', unit: 'J', value: r => r.energy.kineticEnergy },
+  { key: 'energyResidual', label: 'Energy Residual', unit: 'J', value: r => r.energy.residual }
+];
+
+interface TrajectoryRow {
+  surface: string;
+  sample: TrajectorySample;
+}
+
+const TRAJECTORY_COLUMNS: Column<TrajectoryRow>[] = [
+  { key: 'surface', label: 'Surface', unit: '', value: r => r.surface },
+  { key: 'time', label: 'Time', unit: 's', value: r => r.sample.time },
+  { key: 'position', label: 'Position', unit: 'm', value: r => r.sample.position },
+  { key: 'velocity', label: 'Velocity', unit: 'm/s', value: r => r.sample.velocity },
+  { key: 'acceleration', label: 'Acceleration', unit: 'm/s^2', value: r => r.sample.acceleration },
+  { key: 'appliedForce', label: 'Applied Force', unit: 'N', value: r => r.sample.appliedForce },
+  { key: 'frictionForce', label: 'Friction Force', unit: 'N', value: r => r.sample.frictionForce },
+  { key: 'dragForce', label: 'Drag Force', unit: 'N', value: r => r.sample.dragForce },
+  { key: 'tension', label: 'Tension', unit: 'N', value: r => r.sample.tension }
+];
+
+// Extra columns only when some track recorded them: the stack's top block, then each extra body
+const getOptionalColumns = (trajectories: Trajectory[]): Column<TrajectoryRow>[] => {
+  const samples = trajectories.flatMap(t => t.samples);
+  // Reduced, not spread: a long or fine-step run has more samples than a call can take arguments
+  const bodyCount = samples.reduce((max, p) => Math.max(max, p.bodyPositions?.length ?? 0), 0);
+  return [
+    ...(samples.some(p => p.topVelocity !== undefined)
+      ? [{ key: 'topVelocity', label: 'Top Block Velocity', unit: 'm/s', value: (r: TrajectoryRow) => r.sample.topVelocity ?? null }]
+      : []),
+    ...Array.from({ length: Math.max(0, bodyCount - 1) }, (_, i) => [
+      { key: `body${i + 2}Position`, label: `Block #${i + 2} Position`, unit: 'm', value: (r: TrajectoryRow) => r.sample.bodyPositions?.[i + 1] ?? null },
+      { key: `body${i + 2}Velocity`, label: `Block #${i + 2} Velocity`, unit: 'm/s', value: (r: TrajectoryRow) => r.sample.bodyVelocities?.[i + 1] ?? null }
+    ]).flat()
+  ];
+};
+
+/**
+ * Thins a trajectory to roughly one sample per `interval` seconds. The first
+ * and last samples always stay so the start and end states are exact.
+ */
+export const resampleTrajectory = (samples: TrajectorySample[], interval: number): TrajectorySample[] => {
+  if (interval <= 0 || samples.length <= 2) return samples;
+  const picked: TrajectorySample[] = [];
+  let next = 0;
+  samples.forEach(sample => {
+    if (sample.time >= next) {
+      picked.push(sample);
+      next = sample.time + interval;
+    }
+  });
+  if (picked[picked.length - 1] !== samples[samples.length - 1]) picked.push(samples[samples.length - 1]);
+  return picked;
+};
+
+export const validateExportOptions = (options: ExportOptions): string[] => {
+  const errors: string[] = [];
+  if (!Number.isInteger(options.precision) || options.precision < 0 || options.precision > 10) errors.push('Precision must be a whole number of decimals from 0 to 10.');
+  if (!Number.isFinite(options.sampleInterval) || options.sampleInterval < 0) errors.push('The sampling interval cannot be negative.');
+  return errors;
+};
+
+const round = (value: number | string | boolean | null, precision: number) =>
+  typeof value === 'number' ? (Number.isFinite(value) ? Number(value.toFixed(precision)) : null) : value;
+
+const toRecords = <T>(columns: Column<T>[], rows: T[], precision: number) =>
+  rows.map(row => Object.fromEntries(columns.map(c => [c.key, round(c.value(row), precision)])));
+
+const csvField = (value: number | string | boolean | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Nested params become dotted keys, lists stay as JSON
+export const flatten = (value: unknown, prefix: string): [string, string][] => {
+  if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+    return Object.entries(value).flatMap(([key, inner]) => flatten(inner, prefix ? `${prefix}.${key}` : key));
+  }
+  return [[prefix, typeof value === 'object' ? JSON.stringify(value) : String(value)]];
+};
+
+// '#'-prefixed lines ahead of the table: most spreadsheets can be told to skip them
+const csvMetadata = (params: SimulationParams, surfaces: SurfaceConfig[]): string[] => [
+  `# FrictionLab export (experiment format v${EXPERIMENT_VERSION})`,
+  ...flatten(params, 'params').map(([key, value]) => `# ${key},${csvField(value)}`),
+  ...surfaces.map(s => `# surface,${csvField(s.name)},mu_s=${s.staticFrictionCoeff},mu_k=${s.kineticFrictionCoeff}${s.rampAngle !== undefined ? `,ramp=${s.rampAngle}deg` : ''}${s.frictionModel ? `,model=${s.frictionModel.type}` : ''}${s.patches?.length ? `,patches=${s.patches.length}` : ''}`),
+  ''
+];
+
+const toCsv = <T>(columns: Column<T>[], rows: T[], precision: number, params: SimulationParams, surfaces: SurfaceConfig[]): string => {
+  const header = columns.map(c => csvField(c.unit ? `${c.label} (${c.unit})` : c.label)).join(',');
+  const body = toRecords(columns, rows, precision).map(record => columns.map(c => csvField(record[c.key])).join(','));
+  return [...csvMetadata(params, surfaces), header, ...body].join('\n');
+};
+
+const toJson = <T>(kind: string, columns: Column<T>[], rows: T[], precision: number, params: SimulationParams, surfaces: SurfaceConfig[]): string =>
+  JSON.stringify({
+    kind,
+    version: EXPERIMENT_VERSION,
+    params,
+    surfaces,
+    units: Object.fromEntries(columns.filter(c => c.unit).map(c => [c.key, c.unit])),
+    rows: toRecords(columns, rows, precision)
+  }, null, 2);
+
+export const exportResults = (results: SimulationResult[], params: SimulationParams, surfaces: SurfaceConfig[], options: ExportOptions): string =>
+  options.format === 'csv'
+    ? toCsv(RESULT_COLUMNS, results, options.precision, params, surfaces)
+    : toJson('frictionlab-results', RESULT_COLUMNS, results, options.precision, params, surfaces);
+
+// One long table, every surface's samples in turn, so it pivots straight into a chart
+export const exportTrajectories = (trajectories: Trajectory[], params: SimulationParams, surfaces: SurfaceConfig[], options: ExportOptions): string => {
+  const columns = [...TRAJECTORY_COLUMNS, ...getOptionalColumns(trajectories)];
+  const rows = trajectories.flatMap(t => {
+    const surface = surfaces.find(s => s.id === t.surfaceId)?.name ?? t.surfaceId;
+    return resampleTrajectory(t.samples, options.sampleInterval).map(sample => ({ surface, sample }));
+  });
+  return options.format === 'csv'
+    ? toCsv(columns, rows, options.precision, params, surfaces)
+    : toJson('frictionlab-trajectories', columns, rows, options.precision, params, surfaces);
+};
+
+// Hands `text` to the browser as a file download
+export const downloadText = (text: string, filename: string, type: string): void => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
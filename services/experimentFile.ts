@@ -0,0 +1,195 @@
+import { Experiment, ExperimentOptions, SimulationParams, SurfaceConfig, ForceMode, ProfileSegmentType } from "../types";
+import { INITIAL_PARAMS, EXPERIMENT_HASH_KEY } from "../constants";
+import { INTEGRATOR_LABELS } from "./integrators";
+import { validateForceProfile, DEFAULT_PROFILE_SEGMENTS } from "./forceProfile";
+import { validateStack } from "./stackedBlocks";
+import { validateHangingMass } from "./forces";
+import { validateCollision } from "./collisions";
+import { validateSurface } from "./surfaceLibrary";
+
+// Experiment files: params, surfaces and display options as versioned JSON,
+// shared either as a download or squeezed into the URL hash.
+
+export const EXPERIMENT_VERSION = 1;
+
+// MIGRATIONS[n] turns a version-n file into version n + 1. A change that only
+// adds fields needs none (missing fields take their defaults); one that renames
+// or reinterprets a field adds a step here and bumps EXPERIMENT_VERSION.
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {};
+
+const DEFAULT_OPTIONS: ExperimentOptions = { showForceValues: false, showStaticLimit: false };
+
+const FORCE_MODES: ForceMode[] = ['continuous', 'impulse', 'timed', 'distance', 'profile', 'hanging'];
+
+export interface ParsedExperiment {
+  experiment: Experiment | null; // null when there were errors
+  errors: string[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describeType = (value: unknown): string => (Array.isArray(value) ? 'list' : isRecord(value) ? 'object' : typeof value);
+
+// What one list item is checked against: a segment by its own type, anything else by the default list's first item
+const itemDefaults = (defaults: unknown[], item: unknown): unknown => {
+  const first = defaults[0];
+  if (!isRecord(first) || !('type' in first)) return first;
+  return isRecord(item) && typeof item.type === 'string' && Object.hasOwn(DEFAULT_PROFILE_SEGMENTS, item.type)
+    ? DEFAULT_PROFILE_SEGMENTS[item.type as ProfileSegmentType]
+    : null;
+};
+
+// Known keys only, each one missing (or null) in `value` filled in from `defaults`,
+// list items included
+const fillDefaults = <T>(defaults: T, value: unknown): T => {
+  if (value === undefined || value === null) return defaults;
+  if (Array.isArray(defaults) && Array.isArray(value) && defaults.length > 0) {
+    return value.map(item => fillDefaults(itemDefaults(defaults, item), item)) as T;
+  }
+  if (!isRecord(defaults) || !isRecord(value)) return value as T;
+  return Object.fromEntries(Object.entries(defaults).map(([key, fallback]) => [key, fillDefaults(fallback, value[key])])) as T;
+};
+
+export const createExperiment = (params: SimulationParams, surfaces: SurfaceConfig[], options: ExperimentOptions): Experiment => ({
+  version: EXPERIMENT_VERSION,
+  params,
+  surfaces,
+  options
+});
+
+/**
+ * Every value, however deep, whose type differs from its default's. Features
+ * that are off are checked too: switching one on later must not find a
+ * string where a list should be.
+ */
+const findWrongTypes = (defaults: unknown, value: unknown, path: string): string[] => {
+  if (Array.isArray(defaults)) {
+    if (!Array.isArray(value)) return [`${path} should be a list.`];
+    if (defaults.length === 0) return [];
+    return value.flatMap((item, i) => {
+      const shape = itemDefaults(defaults, item);
+      return shape === null ? [`${path}[${i}] is not a known segment type.`] : findWrongTypes(shape, item, `${path}[${i}]`);
+    });
+  }
+  if (isRecord(defaults)) {
+    if (!isRecord(value)) return [`${path} should be an object.`];
+    return Object.keys(defaults).flatMap(key => findWrongTypes(defaults[key], value[key], `${path}.${key}`));
+  }
+  return typeof value === typeof defaults ? [] : [`${path} should be a ${describeType(defaults)}.`];
+};
+
+const validateParams = (params: SimulationParams): string[] => {
+  const wrongType = findWrongTypes(INITIAL_PARAMS, params, 'params');
+  if (wrongType.length > 0) return wrongType;
+
+  const errors: string[] = [];
+  const numbers = (Object.keys(INITIAL_PARAMS) as (keyof SimulationParams)[]).filter(key => typeof INITIAL_PARAMS[key] === 'number');
+  const notFinite = numbers.filter(key => !Number.isFinite(params[key]));
+  if (notFinite.length > 0) return [`${notFinite.map(key => `params.${key}`).join(', ')} must be numbers.`];
+  if (params.mass <= 0) errors.push('Mass must be greater than 0.');
+  if (params.distance <= 0) errors.push('Track distance must be greater than 0.');
+  if (params.appliedForce < 0) errors.push('Applied force cannot be negative.');
+  if (!FORCE_MODES.includes(params.forceMode)) errors.push(`Unknown force mode "${params.forceMode}".`);
+  if (!(params.integrator in INTEGRATOR_LABELS)) errors.push(`Unknown integrator "${params.integrator}".`);
+  if (params.timeStep < 0.001 || params.timeStep > 0.5) errors.push('Time step must be between 0.001 and 0.5 s.');
+  // Like the controls, only check what's in use: leftovers in a mode or feature
+  // that's off are kept as they are, and must not cost the whole setup on load
+  if (params.forceMode === 'profile') errors.push(...validateForceProfile(params.forceProfile));
+  if (params.stack.enabled) errors.push(...validateStack(params.stack));
+  if (params.collision.enabled) errors.push(...validateCollision(params.collision, params.distance));
+  if (params.forceMode === 'hanging') errors.push(...validateHangingMass(params));
+  return errors;
+};
+
+const readSurfaces = (value: unknown): { surfaces: SurfaceConfig[]; errors: string[] } => {
+  if (!Array.isArray(value) || value.length === 0) return { surfaces: [], errors: ['The file needs at least one surface.'] };
+  const errors: string[] = [];
+  value.forEach((surface: unknown, i) => {
+    const s = surface as SurfaceConfig;
+    const label = isRecord(s) && typeof s.name === 'string' ? `Surface "${s.name}"` : `Surface ${i + 1}`;
+    if (!isRecord(s) || typeof s.id !== 'string' || typeof s.name !== 'string' || typeof s.color !== 'string' || !Array.isArray(s.frictionRange)) {
+      errors.push(`${label}: needs an id, name, color and friction range.`);
+      return;
+    }
+    if (s.patches !== undefined && !Array.isArray(s.patches)) {
+      errors.push(`${label}: patches must be a list.`);
+      return;
+    }
+    errors.push(...validateSurface(s, value.slice(0, i) as SurfaceConfig[]).map(e => `${label}: ${e}`));
+    if (value.some((other, j) => j < i && isRecord(other) && other.id === s.id)) errors.push(`${label}: shares its id with another surface.`);
+  });
+  // The description is only shown in the editor, so an older or hand-written file may leave it out
+  const surfaces = (value as SurfaceConfig[]).map(s => ({ ...s, description: typeof s.description === 'string' ? s.description : '' }));
+  return { surfaces, errors };
+};
+
+/**
+ * Checks and upgrades anything that claims to be an experiment. Errors name
+ * the field at fault so a teacher editing a file by hand can fix it.
+ */
+export const readExperiment = (data: unknown): ParsedExperiment => {
+  const fail = (...errors: string[]): ParsedExperiment => ({ experiment: null, errors });
+  if (!isRecord(data) || typeof data.version !== 'number') return fail('This is not a FrictionLab experiment file.');
+  if (data.version > EXPERIMENT_VERSION) {
+    return fail(`This file was saved by a newer FrictionLab (format v${data.version}); this one reads up to v${EXPERIMENT_VERSION}.`);
+  }
+
+  let upgraded = data;
+  for (let version = data.version; version < EXPERIMENT_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) return fail(`Format v${data.version} files can no longer be read.`);
+    upgraded = { ...migrate(upgraded), version: version + 1 };
+  }
+
+  if (!isRecord(upgraded.params)) return fail('The file has no simulation settings.');
+  const params = fillDefaults<SimulationParams>(INITIAL_PARAMS, upgraded.params);
+  const options = fillDefaults(DEFAULT_OPTIONS, upgraded.options);
+  const { surfaces, errors: surfaceErrors } = readSurfaces(upgraded.surfaces);
+  const errors = [
+    ...validateParams(params),
+    ...surfaceErrors,
+    ...(typeof options.showForceValues !== 'boolean' || typeof options.showStaticLimit !== 'boolean' ? ['Display options must be true or false.'] : [])
+  ];
+  if (errors.length > 0) return fail(...errors);
+  return { experiment: { version: EXPERIMENT_VERSION, params, surfaces, options }, errors: [] };
+};
+
+export const serializeExperiment = (experiment: Experiment): string => JSON.stringify(experiment, null, 2);
+
+export const parseExperiment = (text: string): ParsedExperiment => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { experiment: null, errors: ['The file is not valid JSON.'] };
+  }
+  return readExperiment(data);
+};
+
+// base64url over UTF-8, so names like "μ-test" survive and the link needs no escaping
+const toBase64Url = (text: string): string => {
+  let binary = '';
+  new TextEncoder().encode(text).forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+// The hash without its leading '#'; compact JSON keeps links shorter
+export const encodeExperimentHash = (experiment: Experiment): string =>
+  `${EXPERIMENT_HASH_KEY}=${toBase64Url(JSON.stringify(experiment))}`;
+
+// null when the hash carries no experiment at all
+export const decodeExperimentHash = (hash: string): ParsedExperiment | null => {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(EXPERIMENT_HASH_KEY);
+  if (!encoded) return null;
+  try {
+    return parseExperiment(fromBase64Url(encoded));
+  } catch {
+    return { experiment: null, errors: ['The link is damaged; ask for it to be shared again.'] };
+  }
+};
@@ -0,0 +1,150 @@
+// A tiny arithmetic language for user-typed force profiles, e.g. "200*sin(t)"
+// or "150 - 2*x". It is parsed into closures, never passed to eval().
+
+export type ExpressionVariables = Record<string, number>;
+
+export interface CompiledExpression {
+  evaluate: (vars: ExpressionVariables) => number;
+  variables: Set<string>; // which variables the expression actually reads
+}
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  abs: Math.abs,
+  sqrt: Math.sqrt,
+  exp: Math.exp,
+  log: Math.log,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  min: Math.min,
+  max: Math.max,
+  // 1 once the argument reaches 0, handy for switching a force on at a time or place
+  step: (v: number) => (v >= 0 ? 1 : 0)
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'name'; value: string }
+  | { kind: 'op'; value: string };
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\d+\.?\d*(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([a-z_]\w*)|(\*\*|[-+*/^(),]))/iy;
+  let index = 0;
+  while (index < source.length) {
+    if (source.slice(index).trim() === '') break;
+    pattern.lastIndex = index;
+    const match = pattern.exec(source);
+    if (!match) throw new Error(`Unexpected character "${source.slice(index).trim()[0]}".`);
+    if (match[1] !== undefined) tokens.push({ kind: 'number', value: parseFloat(match[1]) });
+    else if (match[2] !== undefined) tokens.push({ kind: 'name', value: match[2].toLowerCase() });
+    else tokens.push({ kind: 'op', value: match[3] === '**' ? '^' : match[3] });
+    index = pattern.lastIndex;
+  }
+  return tokens;
+};
+
+type Node = (vars: ExpressionVariables) => number;
+
+/**
+ * Compiles `source` against the allowed variable names. Throws an Error with
+ * a readable message if the expression is malformed or uses unknown names.
+ */
+export const compileExpression = (source: string, allowedVariables: string[]): CompiledExpression => {
+  const tokens = tokenize(source);
+  const variables = new Set<string>();
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const isOp = (value: string) => peek()?.kind === 'op' && peek()!.value === value;
+  const expectOp = (value: string) => {
+    if (!isOp(value)) throw new Error(`Expected "${value}".`);
+    pos++;
+  };
+
+  // expr := term (('+' | '-') term)*
+  const parseExpr = (): Node => {
+    let left = parseTerm();
+    while (isOp('+') || isOp('-')) {
+      const op = tokens[pos++].value;
+      const l = left, r = parseTerm();
+      left = op === '+' ? vars => l(vars) + r(vars) : vars => l(vars) - r(vars);
+    }
+    return left;
+  };
+
+  // term := unary (('*' | '/') unary)*
+  const parseTerm = (): Node => {
+    let left = parseUnary();
+    while (isOp('*') || isOp('/')) {
+      const op = tokens[pos++].value;
+      const l = left, r = parseUnary();
+      left = op === '*' ? vars => l(vars) * r(vars) : vars => l(vars) / r(vars);
+    }
+    return left;
+  };
+
+  // unary := ('-' | '+') unary | power
+  const parseUnary = (): Node => {
+    if (isOp('-')) {
+      pos++;
+      const inner = parseUnary();
+      return vars => -inner(vars);
+    }
+    if (isOp('+')) {
+      pos++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  // power := atom ('^' unary)?, right-associative
+  const parsePower = (): Node => {
+    const base = parseAtom();
+    if (!isOp('^')) return base;
+    pos++;
+    const exponent = parseUnary();
+    return vars => Math.pow(base(vars), exponent(vars));
+  };
+
+  const parseAtom = (): Node => {
+    const token = tokens[pos++];
+    if (!token) throw new Error('Expression ends too early.');
+    if (token.kind === 'number') return () => token.value;
+    if (token.kind === 'op') {
+      if (token.value !== '(') throw new Error(`Unexpected "${token.value}".`);
+      const inner = parseExpr();
+      expectOp(')');
+      return inner;
+    }
+    const name = token.value;
+    if (isOp('(')) {
+      // Own keys only, so "toString" or "constructor" are unknown like any other name
+      const fn = Object.hasOwn(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+      if (!fn) throw new Error(`Unknown function "${name}".`);
+      pos++;
+      const args: Node[] = [parseExpr()];
+      while (isOp(',')) {
+        pos++;
+        args.push(parseExpr());
+      }
+      expectOp(')');
+      return vars => fn(...args.map(a => a(vars)));
+    }
+    if (Object.hasOwn(CONSTANTS, name)) return () => CONSTANTS[name];
+    if (!allowedVariables.includes(name)) {
+      throw new Error(`Unknown name "${name}". Use ${allowedVariables.join(' or ')}.`);
+    }
+    variables.add(name);
+    return vars => vars[name];
+  };
+
+  if (tokens.length === 0) throw new Error('Expression is empty.');
+  const root = parseExpr();
+  if (pos < tokens.length) throw new Error(`Unexpected "${String(tokens[pos].value)}".`);
+  return { evaluate: root, variables };
+};
@@ -0,0 +1,142 @@
+import { ForceProfile, ProfileSegment, ProfileSegmentType } from "../types";
+import { MAX_SIMULATION_TIME } from "../constants";
+import { compileExpression } from "./expression";
+
+// Evaluates ForceMode 'profile': a piecewise push along time or distance, or
+// a typed expression in t and x.
+
+export const PROFILE_SEGMENT_LABELS: Record<ProfileSegmentType, string> = {
+  'ramp': 'Ramp',
+  'hold': 'Hold',
+  'sine': 'Sine',
+  'step': 'Step'
+};
+
+// What a newly added segment starts as
+export const DEFAULT_PROFILE_SEGMENTS: Record<ProfileSegmentType, ProfileSegment> = {
+  'ramp': { type: 'ramp', length: 5, from: 0, to: 100 },
+  'hold': { type: 'hold', length: 5, value: 100 },
+  'sine': { type: 'sine', length: 10, offset: 100, amplitude: 50, period: 2 },
+  'step': { type: 'step', length: 5, from: 50, to: 150 }
+};
+
+export const PROFILE_VARIABLES = ['t', 'x'];
+
+export interface CompiledProfile {
+  forceAt: (time: number, position: number) => number; // Newtons, never negative
+  dependsOnTime: boolean; // a stuck block may still break free later
+  endTime: number; // seconds after which the force no longer changes with time
+}
+
+// Force within one segment, `u` measured from the segment's start
+const segmentForce = (segment: ProfileSegment, u: number): number => {
+  switch (segment.type) {
+    case 'hold':
+      return segment.value;
+    case 'ramp':
+      return segment.from + (segment.to - segment.from) * (u / segment.length);
+    case 'step':
+      return u < segment.length / 2 ? segment.from : segment.to;
+    case 'sine':
+      return segment.offset + segment.amplitude * Math.sin((2 * Math.PI * u) / segment.period);
+  }
+};
+
+export const getProfileLength = (profile: ForceProfile): number =>
+  profile.segments.reduce((sum, s) => sum + s.length, 0);
+
+const evaluateSegments = (segments: ProfileSegment[], s: number): number => {
+  let start = 0;
+  for (const segment of segments) {
+    if (s < start + segment.length) return segmentForce(segment, s - start);
+    start += segment.length;
+  }
+  return 0;
+};
+
+export const validateForceProfile = (profile: ForceProfile): string[] => {
+  if (profile.kind === 'expression') {
+    const errors: string[] = [];
+    try {
+      compileExpression(profile.expression, PROFILE_VARIABLES);
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+    if (!Number.isFinite(profile.expressionEnd) || profile.expressionEnd <= 0 || profile.expressionEnd > MAX_SIMULATION_TIME) {
+      errors.push(`The push must end between 0 and ${MAX_SIMULATION_TIME} s.`);
+    }
+    return errors;
+  }
+  const errors: string[] = [];
+  if (profile.segments.length === 0) errors.push('Add at least one segment.');
+  profile.segments.forEach((segment, i) => {
+    const numbers = Object.values(segment).filter((v): v is number => typeof v === 'number');
+    if (!numbers.every(Number.isFinite)) errors.push(`Segment ${i + 1}: every field needs a number.`);
+    else if (segment.length <= 0) errors.push(`Segment ${i + 1}: length must be greater than 0.`);
+    else if (segment.type === 'sine' && segment.period <= 0) errors.push(`Segment ${i + 1}: period must be greater than 0.`);
+  });
+  return errors;
+};
+
+const describeSegment = (segment: ProfileSegment, unit: string): string => {
+  switch (segment.type) {
+    case 'hold':
+      return `hold ${segment.value} N for ${segment.length} ${unit}`;
+    case 'ramp':
+      return `ramp ${segment.from}→${segment.to} N over ${segment.length} ${unit}`;
+    case 'step':
+      return `step ${segment.from}→${segment.to} N over ${segment.length} ${unit}`;
+    case 'sine':
+      return `${segment.offset} ± ${segment.amplitude} N sine (period ${segment.period} ${unit}) for ${segment.length} ${unit}`;
+  }
+};
+
+export const describeForceProfile = (profile: ForceProfile): string => {
+  if (profile.kind === 'expression') {
+    return `F = ${profile.expression}${compileForceProfile(profile).dependsOnTime ? ` until t = ${profile.expressionEnd} s, then 0 N` : ''}`;
+  }
+  const unit = profile.variable === 't' ? 's' : 'm';
+  return `F(${profile.variable}) = ${profile.segments.map(s => describeSegment(s, unit)).join(', then ')}, then 0 N`;
+};
+
+const NO_FORCE: CompiledProfile = { forceAt: () => 0, dependsOnTime: false, endTime: 0 };
+
+// Compiled once per profile object; the engine asks for it every step
+const cache = new WeakMap<ForceProfile, CompiledProfile>();
+
+/**
+ * Turns a profile into a force function. Invalid profiles push with zero
+ * force; callers should check validateForceProfile first.
+ */
+export const compileForceProfile = (profile: ForceProfile): CompiledProfile => {
+  const cached = cache.get(profile);
+  if (cached) return cached;
+
+  let compiled = NO_FORCE;
+  if (validateForceProfile(profile).length === 0) {
+    if (profile.kind === 'expression') {
+      const expression = compileExpression(profile.expression, PROFILE_VARIABLES);
+      const dependsOnTime = expression.variables.has('t');
+      // Cut off like the last segment of a profile, or a block at rest could never be called stopped
+      const end = profile.expressionEnd;
+      compiled = {
+        forceAt: (t, x) => {
+          if (dependsOnTime && t >= end) return 0;
+          const value = expression.evaluate({ t, x });
+          return Number.isFinite(value) ? Math.max(0, value) : 0;
+        },
+        dependsOnTime,
+        endTime: dependsOnTime ? end : 0
+      };
+    } else {
+      const byTime = profile.variable === 't';
+      compiled = {
+        forceAt: (t, x) => Math.max(0, evaluateSegments(profile.segments, byTime ? t : x)),
+        dependsOnTime: byTime,
+        endTime: byTime ? getProfileLength(profile) : 0
+      };
+    }
+  }
+  cache.set(profile, compiled);
+  return compiled;
+};
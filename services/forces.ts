@@ -0,0 +1,114 @@
+import { SimulationParams, SurfaceConfig } from "../types";
+import { GRAVITY } from "../constants";
+import { getSlidingFriction } from "./frictionModels";
+
+// Force components for a block on a (possibly inclined) track. The ramp
+// angle is measured from horizontal, sloping down in the direction of travel.
+// The push/pull angle is measured from the track surface, upwards.
+
+const toRadians = (deg: number) => (deg * Math.PI) / 180;
+
+// A surface's own ramp angle overrides the global one
+export const getRampAngle = (surface: SurfaceConfig, params: SimulationParams): number =>
+  surface.rampAngle ?? params.rampAngle;
+
+export const getWeight = (params: SimulationParams): number => params.mass * GRAVITY;
+
+// The pulley string runs parallel to the track, whatever the pull angle is set to
+export const getForceAngle = (params: SimulationParams): number =>
+  params.forceMode === 'hanging' ? 0 : params.forceAngle;
+
+// Part of the push along the track: F·cosφ
+export const getPushAlong = (params: SimulationParams, push: number): number =>
+  push * Math.cos(toRadians(getForceAngle(params)));
+
+// Part of the push lifting the block off the track: F·sinφ
+export const getPushLift = (params: SimulationParams, push: number): number =>
+  push * Math.sin(toRadians(getForceAngle(params)));
+
+export const getHangingWeight = (params: SimulationParams): number => params.hangingMass * GRAVITY;
+
+// Extra mass the block has to accelerate with a hanging drive: m_h + I/r^2
+export const getHangingInertia = (params: SimulationParams): number => {
+  if (params.forceMode !== 'hanging') return 0;
+  return params.hangingMass + (params.pulleyInertia > 0 ? params.pulleyInertia / (params.pulleyRadius * params.pulleyRadius) : 0);
+};
+
+// Everything that speeds up together: the block, plus the hanging mass and pulley if there are any
+export const getInertialMass = (params: SimulationParams): number => params.mass + getHangingInertia(params);
+
+export const validateHangingMass = (params: SimulationParams): string[] => {
+  const { hangingMass, pulleyInertia, pulleyRadius } = params;
+  if (![hangingMass, pulleyInertia, pulleyRadius].every(Number.isFinite)) return ['Hanging mass and pulley values must be numbers.'];
+  const errors: string[] = [];
+  if (hangingMass <= 0) errors.push('Hanging mass must be greater than 0.');
+  if (pulleyInertia < 0) errors.push('Pulley inertia cannot be negative.');
+  if (pulleyInertia > 0 && pulleyRadius <= 0) errors.push('A pulley with inertia needs a radius greater than 0.');
+  return errors;
+};
+
+/**
+ * String tension on the block's side of the pulley at a shared acceleration:
+ * m_h·g − (m_h + I/r^2)·a. At rest it is just the hanging weight.
+ */
+export const getTension = (params: SimulationParams, acceleration: number): number =>
+  params.forceMode === 'hanging' ? getHangingWeight(params) - getHangingInertia(params) * acceleration : 0;
+
+// Perpendicular to the track: mg·cosθ − F·sinφ. Negative means the pull has lifted the block
+export const getNormalForce = (surface: SurfaceConfig, params: SimulationParams, push: number = 0): number =>
+  getWeight(params) * Math.cos(toRadians(getRampAngle(surface, params))) - getPushLift(params, push);
+
+// Along the track, pulling the block downhill: mg·sinθ
+export const getGravityAlongSlope = (surface: SurfaceConfig, params: SimulationParams): number =>
+  getWeight(params) * Math.sin(toRadians(getRampAngle(surface, params)));
+
+// k in F = k·v^2, zero when drag is switched off
+export const getDragConstant = (params: SimulationParams): number =>
+  params.airDrag ? 0.5 * params.airDensity * params.dragCoefficient * params.frontalArea : 0;
+
+// Air resistance against the motion: 1/2·rho·Cd·A·v^2
+export const getDragForce = (params: SimulationParams, velocity: number): number =>
+  getDragConstant(params) * velocity * velocity;
+
+/**
+ * Speed at which drag plus sliding friction balance a steady `push` (and the
+ * slope's pull). Infinity without drag; 0 if friction alone wins.
+ */
+export const getTerminalVelocity = (surface: SurfaceConfig, params: SimulationParams, push: number): number => {
+  const k = getDragConstant(params);
+  if (k === 0) return Infinity;
+  const normalForce = Math.max(0, getNormalForce(surface, params, push));
+  const drivingForce = getPushAlong(params, push) + getGravityAlongSlope(surface, params);
+  const net = (v: number) => drivingForce - getSlidingFriction(surface, normalForce, v) - k * v * v;
+  if (net(0) <= 0) return 0;
+  // Drag alone balances the drive here, so friction guarantees net <= 0
+  let lo = 0;
+  let hi = Math.sqrt(drivingForce / k);
+  for (let i = 0; i < 60; i++) {
+    const mid = 0.5 * (lo + hi);
+    if (net(mid) > 0) lo = mid;
+    else hi = mid;
+  }
+  return lo;
+};
+
+// Pulling at atan(mu_s) above the surface trades a little forward force for
+// a bigger cut in friction; it minimises the force needed to break free
+export const getOptimalForceAngle = (surface: SurfaceConfig): number =>
+  (Math.atan(surface.staticFrictionCoeff) * 180) / Math.PI;
+
+/**
+ * Smallest push at `angle` degrees that starts the block sliding:
+ * F·(cosφ + mu_s·sinφ) > mu_s·mg·cosθ − mg·sinθ. Infinity if pressing down
+ * that steeply can never win.
+ */
+export const getBreakawayForce = (surface: SurfaceConfig, params: SimulationParams, angle: number): number => {
+  const mus = surface.staticFrictionCoeff;
+  const needed = mus * getNormalForce(surface, params) - getGravityAlongSlope(surface, params);
+  if (needed <= 0) return 0;
+  const gain = Math.cos(toRadians(angle)) + mus * Math.sin(toRadians(angle));
+  return gain > 0 ? needed / gain : Infinity;
+};
+
+export const getMinimumBreakawayForce = (surface: SurfaceConfig, params: SimulationParams): number =>
+  getBreakawayForce(surface, params, getOptimalForceAngle(surface));
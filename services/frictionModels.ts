@@ -0,0 +1,77 @@
+import { FrictionModel, FrictionModelType, SurfaceConfig } from "../types";
+
+// Sliding friction as a function of speed. Static friction (up to mu_s·N)
+// is handled by the engine; these only apply once the block is moving.
+
+export const FRICTION_MODEL_LABELS: Record<FrictionModelType, string> = {
+  'coulomb': 'Coulomb',
+  'viscous': 'Coulomb + Viscous',
+  'stribeck': 'Stribeck'
+};
+
+// Starting parameters when a surface switches to a model
+export const DEFAULT_FRICTION_MODELS: Record<FrictionModelType, FrictionModel> = {
+  'coulomb': { type: 'coulomb' },
+  'viscous': { type: 'viscous', viscousCoeff: 0.5 },
+  'stribeck': { type: 'stribeck', stribeckVelocity: 0.5, exponent: 2, viscousCoeff: 0 }
+};
+
+export const getFrictionModel = (surface: SurfaceConfig): FrictionModel =>
+  surface.frictionModel ?? DEFAULT_FRICTION_MODELS.coulomb;
+
+// Only plain Coulomb friction gives constant-acceleration phases with a closed form
+export const hasClosedForm = (surface: SurfaceConfig): boolean =>
+  getFrictionModel(surface).type === 'coulomb';
+
+/**
+ * Sliding friction force in Newtons at `speed` m/s. The Stribeck curve starts
+ * at mu_s·N at zero speed, so breakaway is smooth instead of a sudden drop.
+ */
+export const getSlidingFriction = (surface: SurfaceConfig, normalForce: number, speed: number): number => {
+  const model = getFrictionModel(surface);
+  const v = Math.max(0, speed);
+  const coulomb = surface.kineticFrictionCoeff * normalForce;
+  switch (model.type) {
+    case 'coulomb':
+      return coulomb;
+    case 'viscous':
+      return coulomb + model.viscousCoeff * v;
+    case 'stribeck': {
+      const drop = (surface.staticFrictionCoeff - surface.kineticFrictionCoeff) * normalForce;
+      return coulomb + drop * Math.exp(-Math.pow(v / model.stribeckVelocity, model.exponent)) + model.viscousCoeff * v;
+    }
+  }
+};
+
+// Friction expressed as an effective coefficient F/N, for plotting mu(v)
+export const getEffectiveFrictionCoeff = (surface: SurfaceConfig, normalForce: number, speed: number): number =>
+  normalForce > 0 ? getSlidingFriction(surface, normalForce, speed) / normalForce : surface.kineticFrictionCoeff;
+
+export const describeFrictionModel = (surface: SurfaceConfig): string => {
+  const model = getFrictionModel(surface);
+  switch (model.type) {
+    case 'coulomb':
+      return FRICTION_MODEL_LABELS.coulomb;
+    case 'viscous':
+      return `${FRICTION_MODEL_LABELS.viscous} (b = ${model.viscousCoeff} N·s/m)`;
+    case 'stribeck':
+      return `${FRICTION_MODEL_LABELS.stribeck} (vs = ${model.stribeckVelocity} m/s, δ = ${model.exponent}, b = ${model.viscousCoeff} N·s/m)`;
+  }
+};
+
+export const validateFrictionModel = (model: FrictionModel): string[] => {
+  const errors: string[] = [];
+  if (model.type === 'coulomb') return errors;
+  if (!(Number.isFinite(model.viscousCoeff) && model.viscousCoeff >= 0)) {
+    errors.push('Viscous coefficient b must be a number of at least 0.');
+  }
+  if (model.type === 'stribeck') {
+    if (!(Number.isFinite(model.stribeckVelocity) && model.stribeckVelocity > 0)) {
+      errors.push('Stribeck velocity must be greater than 0.');
+    }
+    if (!(Number.isFinite(model.exponent) && model.exponent > 0)) {
+      errors.push('Stribeck exponent must be greater than 0.');
+    }
+  }
+  return errors;
+};
@@ -0,0 +1,62 @@
+import { IntegratorType } from "../types";
+
+// Acceleration as a function of time, position and velocity (m/s^2)
+export type AccelerationFn = (time: number, position: number, velocity: number) => number;
+
+export interface IntegratorStep {
+  position: number;
+  velocity: number;
+}
+
+export const INTEGRATOR_LABELS: Record<IntegratorType, string> = {
+  'euler': 'Explicit Euler',
+  'semi-implicit-euler': 'Semi-implicit Euler',
+  'verlet': 'Velocity Verlet',
+  'rk4': 'Runge-Kutta 4'
+};
+
+/**
+ * Advances (position, velocity) by one step of `dt` seconds starting at `time`.
+ */
+export const integrate = (
+  integrator: IntegratorType,
+  time: number,
+  position: number,
+  velocity: number,
+  dt: number,
+  acc: AccelerationFn
+): IntegratorStep => {
+  switch (integrator) {
+    case 'euler': {
+      // Both updates use the old state
+      const a = acc(time, position, velocity);
+      return { position: position + velocity * dt, velocity: velocity + a * dt };
+    }
+    case 'semi-implicit-euler': {
+      // Velocity first, then position with the new velocity
+      const a = acc(time, position, velocity);
+      const newVelocity = velocity + a * dt;
+      return { position: position + newVelocity * dt, velocity: newVelocity };
+    }
+    case 'verlet': {
+      const a = acc(time, position, velocity);
+      const newPosition = position + velocity * dt + 0.5 * a * dt * dt;
+      const aNext = acc(time + dt, newPosition, velocity + a * dt);
+      return { position: newPosition, velocity: velocity + 0.5 * (a + aNext) * dt };
+    }
+    case 'rk4': {
+      const k1v = acc(time, position, velocity);
+      const k1x = velocity;
+      const k2v = acc(time + dt / 2, position + k1x * dt / 2, velocity + k1v * dt / 2);
+      const k2x = velocity + k1v * dt / 2;
+      const k3v = acc(time + dt / 2, position + k2x * dt / 2, velocity + k2v * dt / 2);
+      const k3x = velocity + k2v * dt / 2;
+      const k4v = acc(time + dt, position + k3x * dt, velocity + k3v * dt);
+      const k4x = velocity + k3v * dt;
+      return {
+        position: position + (dt / 6) * (k1x + 2 * k2x + 2 * k3x + k4x),
+        velocity: velocity + (dt / 6) * (k1v + 2 * k2v + 2 * k3v + k4v)
+      };
+    }
+  }
+};
@@ -0,0 +1,158 @@
+import { SimulationParams, SurfaceConfig, SolverTarget, SolverVariable, SolverSolution, SolverRequest } from "../types";
+import { MAX_SIMULATION_TIME } from "../constants";
+import { runHeadless } from "./simulationEngine";
+import { isStaticOffsetLocked, setKineticCoeff } from "./surfaceLibrary";
+
+// Works backwards from a wanted outcome: bisects one input against the engine
+// until the run lands on the goal, one surface at a time.
+
+export const SOLVER_TARGETS: Record<SolverTarget, { label: string; unit: string }> = {
+  'finishTime': { label: 'Finish Time', unit: 's' },
+  'stopPosition': { label: 'Stop Position', unit: 'm' },
+  'maxVelocity': { label: 'Max Speed', unit: 'm/s' }
+};
+
+export const SOLVER_VARIABLES: Record<SolverVariable, { label: string; unit: string }> = {
+  'appliedForce': { label: 'Applied Force', unit: 'N' },
+  'forceDuration': { label: 'Force Duration', unit: 's' },
+  'forceDistanceLimit': { label: 'Force Distance', unit: 'm' },
+  'mass': { label: 'Mass', unit: 'kg' },
+  'kineticFrictionCoeff': { label: 'μk', unit: '' }
+};
+
+const BISECTION_STEPS = 32;
+const RELATIVE_TOLERANCE = 0.01; // a solution within 1% of the goal counts as hitting it
+
+// Inputs that mean something in the current force mode
+export const getSolverVariables = (params: SimulationParams): SolverVariable[] => [
+  ...(params.forceMode !== 'profile' && params.forceMode !== 'hanging' ? ['appliedForce' as const] : []),
+  ...(params.forceMode === 'timed' ? ['forceDuration' as const] : []),
+  ...(params.forceMode === 'distance' ? ['forceDistanceLimit' as const] : []),
+  'mass',
+  'kineticFrictionCoeff'
+];
+
+export const validateSolverGoal = (target: SolverTarget, goal: number, params: SimulationParams): string[] => {
+  if (!Number.isFinite(goal) || goal <= 0) return ['The goal must be a number greater than 0.'];
+  if (target === 'stopPosition' && goal >= params.distance) return ['A stop position must be before the finish line.'];
+  return [];
+};
+
+// Searched range for each input; the same limits as the controls that set them
+const getBounds = (variable: SolverVariable, params: SimulationParams, surface: SurfaceConfig): [number, number] => {
+  switch (variable) {
+    case 'appliedForce':
+      return [0, 2000];
+    case 'forceDuration':
+      return [0.1, MAX_SIMULATION_TIME];
+    case 'forceDistanceLimit':
+      return [1, params.distance];
+    case 'mass':
+      return [1, 1000];
+    case 'kineticFrictionCoeff': {
+      // Within the surface's slider range, or the library would reject the applied value;
+      // unlocked, mu_s caps it too
+      const [min, max] = surface.frictionRange;
+      return [min, isStaticOffsetLocked(surface) ? max : Math.min(max, surface.staticFrictionCoeff)];
+    }
+  }
+};
+
+const withValue = (variable: SolverVariable, value: number, params: SimulationParams, surface: SurfaceConfig): [SimulationParams, SurfaceConfig] =>
+  variable === 'kineticFrictionCoeff'
+    ? [params, setKineticCoeff(surface, value)]
+    : [{ ...params, [variable]: value }, surface];
+
+// Runs one track until nothing more can happen and reads off the target quantity
+const measure = (target: SolverTarget, params: SimulationParams, surface: SurfaceConfig): number => {
+  const { state, maxVelocity } = runHeadless(surface, params);
+  switch (target) {
+    case 'finishTime':
+      return state.status === 'crossed-finish' ? state.timeElapsed : Infinity;
+    case 'stopPosition':
+      return state.position;
+    case 'maxVelocity':
+      return maxVelocity;
+  }
+};
+
+export const formatSolverValue = (variable: SolverVariable, value: number): string =>
+  variable === 'kineticFrictionCoeff' ? value.toFixed(3) : `${value.toFixed(2)} ${SOLVER_VARIABLES[variable].unit}`;
+
+const formatTarget = (target: SolverTarget, value: number): string =>
+  Number.isFinite(value) ? `${value.toFixed(2)} ${SOLVER_TARGETS[target].unit}` : 'never';
+
+/**
+ * Finds the value of `variable` that makes `surface` hit `goal`. Assumes the
+ * outcome moves one way as the input grows, so it only needs the two ends of
+ * the range to straddle the goal; otherwise it explains how close they get.
+ */
+export const solveInverse = (
+  target: SolverTarget,
+  goal: number,
+  variable: SolverVariable,
+  params: SimulationParams,
+  surface: SurfaceConfig
+): SolverSolution => {
+  const [lo, hi] = getBounds(variable, params, surface);
+  const valueAt = (x: number) => measure(target, ...withValue(variable, x, params, surface));
+  const name = SOLVER_VARIABLES[variable].label;
+  const outcome = SOLVER_TARGETS[target].label.toLowerCase();
+  const atLo = valueAt(lo);
+  const atHi = valueAt(hi);
+
+  if ((atLo < goal) === (atHi < goal)) {
+    return {
+      surfaceId: surface.id,
+      variable,
+      value: null,
+      achieved: null,
+      exact: false,
+      explanation: `With ${name} from ${formatSolverValue(variable, lo)} to ${formatSolverValue(variable, hi)}, the ${outcome} only goes from ${formatTarget(target, atLo)} to ${formatTarget(target, atHi)}.`
+    };
+  }
+
+  let below = lo;
+  let above = hi;
+  let atBelow = atLo;
+  let atAbove = atHi;
+  const rising = atLo < goal;
+  for (let i = 0; i < BISECTION_STEPS; i++) {
+    const mid = 0.5 * (below + above);
+    const atMid = valueAt(mid);
+    if ((atMid < goal) === rising) {
+      below = mid;
+      atBelow = atMid;
+    } else {
+      above = mid;
+      atAbove = atMid;
+    }
+  }
+  // Either side of the crossing, whichever lands closer
+  const useAbove = Math.abs(atAbove - goal) <= Math.abs(atBelow - goal);
+  const value = useAbove ? above : below;
+  const achieved = useAbove ? atAbove : atBelow;
+  const exact = Math.abs(achieved - goal) <= RELATIVE_TOLERANCE * goal;
+  return {
+    surfaceId: surface.id,
+    variable,
+    value,
+    achieved,
+    exact,
+    explanation: exact
+      ? `${name} = ${formatSolverValue(variable, value)} gives a ${outcome} of ${formatTarget(target, achieved)}.`
+      : `The ${outcome} jumps from ${formatTarget(target, atBelow)} to ${formatTarget(target, atAbove)} around ${name} = ${formatSolverValue(variable, value)}, so ${formatTarget(target, goal)} can't be hit exactly${params.snapToExact ? '' : '; a smaller time step or Snap to exact may close the gap'}.`
+  };
+};
+
+export type SolverMessage =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'done'; solutions: SolverSolution[] };
+
+// Every surface in turn; dozens of full runs each, so it belongs in solverWorker.ts, off the main thread
+export const solveAll = (request: SolverRequest, onProgress?: (done: number, total: number) => void): SolverSolution[] =>
+  request.surfaces.map((surface, i) => {
+    const solution = solveInverse(request.target, request.goal, request.variable, request.params, surface);
+    onProgress?.(i + 1, request.surfaces.length);
+    return solution;
+  });
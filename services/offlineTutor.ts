@@ -0,0 +1,158 @@
+import { SimulationParams, SimulationResult, SurfaceConfig } from "../types";
+import { IMPULSE_DURATION } from "../constants";
+import { getNormalForce, getGravityAlongSlope, getPushAlong, getForceAngle } from "./forces";
+import { describeFrictionModel, hasClosedForm } from "./frictionModels";
+import { getSurfaceAt, hasPatches } from "./trackPatches";
+import { compileForceProfile, getProfileLength } from "./forceProfile";
+
+// A tutor with no network: builds the explanation from the results alone.
+// Same questions as the prompt in tutorPrompt.ts, same numbers, always the same words.
+
+const n = (value: number, digits: number = 1) => value.toFixed(digits);
+
+// What drove the block, in words, for the current force mode
+const describeDrive = (params: SimulationParams, r: SimulationResult): string => {
+  switch (params.forceMode) {
+    case 'hanging':
+      return `the hanging weight mₕg = ${n(r.appliedForce)} N`;
+    case 'profile':
+      return `the profile's peak push of ${n(r.appliedForce)} N`;
+    default:
+      return `the ${n(params.appliedForce)} N push`;
+  }
+};
+
+// Constant-force Coulomb runs can be worked through by hand; anything else only gets the recorded numbers
+const isHandSolvable = (params: SimulationParams, surface: SurfaceConfig): boolean =>
+  hasClosedForm(surface) && !hasPatches(surface) && !params.airDrag && !params.stack.enabled && !params.collision.enabled
+  && params.forceMode !== 'profile' && params.forceMode !== 'hanging';
+
+const explainBreakaway = (params: SimulationParams, surface: SurfaceConfig, r: SimulationResult): string => {
+  if (r.liftedOff) {
+    return `- **${r.surface}** lifted off: the upward part of the pull, F·sinφ, outweighed the block, so it left the track.`;
+  }
+  if (!r.didMove) {
+    return `- **${r.surface}** stayed put: ${describeDrive(params, r)} never beat the static friction limit μs·N = ${n(r.staticFrictionLimit)} N (μs = ${getSurfaceAt(surface, 0).staticFrictionCoeff}). `
+      + `Pulled at the optimal angle of ${n(r.optimalForceAngle)}° it would need only ${n(r.minBreakawayForce)} N.`;
+  }
+  const when = r.breakawayTime !== null && r.breakawayTime > 0 ? ` after ${n(r.breakawayTime, 2)} s` : ' straight away';
+  return `- **${r.surface}** moved: ${describeDrive(params, r)} beat the static friction limit of ${n(r.staticFrictionLimit)} N and broke free${when}.`;
+};
+
+const explainNetForce = (params: SimulationParams, surface: SurfaceConfig, r: SimulationResult): string => {
+  const peak = `It peaked at ${n(r.peakAcceleration, 2)} m/s² and reached ${n(r.maxVelocity, 2)} m/s.`;
+  if (!isHandSolvable(params, surface)) {
+    return `- **${r.surface}**: friction here is ${describeFrictionModel(surface)}${hasPatches(surface) ? ' and changes from patch to patch' : ''}, so the net force changed as it went. ${peak}`;
+  }
+  const push = params.appliedForce;
+  const normal = getNormalForce(surface, params, push);
+  const friction = surface.kineticFrictionCoeff * normal;
+  const net = getPushAlong(params, push) + getGravityAlongSlope(surface, params) - friction;
+  const angle = getForceAngle(params) !== 0 ? '·cosφ' : '';
+  const slope = getGravityAlongSlope(surface, params) !== 0 ? ' + mg·sinθ' : '';
+  return `- **${r.surface}**: while pushed, kinetic friction was μk·N = ${surface.kineticFrictionCoeff} × ${n(normal)} = ${n(friction)} N, `
+    + `so F_net = F${angle}${slope} − μk·N = ${n(net)} N and a = F_net / m = ${n(net / params.mass, 2)} m/s². ${peak}`;
+};
+
+// Whether the drive had switched off before this track's run ended, leaving the block to coast
+const pushEndedDuringRun = (params: SimulationParams, r: SimulationResult): boolean => {
+  const endTime = r.accuracy.stopTime.numerical; // when this track's clock stopped
+  switch (params.forceMode) {
+    case 'impulse':
+      return IMPULSE_DURATION < endTime;
+    case 'timed':
+      return params.forceDuration < endTime;
+    case 'distance':
+      return params.forceDistanceLimit < r.stopPosition;
+    case 'profile': {
+      const profile = params.forceProfile;
+      // Segments push nothing past the last one; an expression has no end of its own, so see where it got to
+      if (profile.kind === 'segments') return getProfileLength(profile) < (profile.variable === 't' ? endTime : r.stopPosition);
+      return compileForceProfile(profile).forceAt(endTime, r.stopPosition) === 0;
+    }
+    default:
+      return false;
+  }
+};
+
+const explainCoasting = (params: SimulationParams, surface: SurfaceConfig, r: SimulationResult): string => {
+  const cutoff = r.analytic.events.forceCutoff;
+  const stopped = r.completed ? `still crossed the finish at ${n(r.finalTime, 2)} s` : `came to rest at ${n(r.stopPosition, 2)} m`;
+  if (!isHandSolvable(params, surface)) {
+    return `- **${r.surface}**: once the push ended, only friction${params.airDrag ? ' and drag' : ''} acted along the track, and it ${stopped}.`;
+  }
+  const normal = getNormalForce(surface, params, 0);
+  const deceleration = (surface.kineticFrictionCoeff * normal - getGravityAlongSlope(surface, params)) / params.mass;
+  const after = cutoff !== null ? `After the push stopped at ${n(cutoff, 2)} s` : 'Once the push stopped';
+  if (deceleration <= 0) {
+    return `- **${r.surface}**: ${after}, gravity along the ramp outweighed kinetic friction, so it kept speeding up and ${stopped}.`;
+  }
+  return `- **${r.surface}**: ${after}, friction alone slowed it at μk·N / m = ${n(deceleration, 2)} m/s², and it ${stopped}.`;
+};
+
+const explainEnergy = (r: SimulationResult): string => {
+  const e = r.energy;
+  const losses = [
+    `${n(e.workFriction)} J of heat`,
+    ...(e.workDrag > 0 ? [`${n(e.workDrag)} J against the air`] : []),
+    ...(e.workCollision > 0 ? [`${n(e.workCollision)} J in impacts`] : [])
+  ];
+  return `- **${r.surface}**: the push did ${n(e.workApplied)} J${e.workGravity !== 0 ? ` and gravity ${n(e.workGravity)} J` : ''} of work; `
+    + `${n(e.kineticEnergy)} J is left as kinetic energy and ${losses.join(', ')} (residual ${n(e.residual, 2)} J${e.balanced ? '' : ', larger than it should be; try a smaller time step'}).`;
+};
+
+// The rarer setups each get one line of their own
+const explainDetails = (r: SimulationResult): string[] => [
+  ...(r.tension !== null ? [r.didMove
+    ? `- **${r.surface}**: the string's tension averaged ${n(r.tension)} N, less than the hanging weight of ${n(r.appliedForce)} N because the hanging mass accelerates too.`
+    : `- **${r.surface}**: nothing accelerated, so the string's tension stayed at the full hanging weight of ${n(r.tension)} N, all of it held by static friction.`] : []),
+  ...(r.stack ? [`- **${r.surface}**: ${r.stack.slipped ? `the top block slipped, ending ${n(Math.abs(r.stack.slipDistance), 2)} m ${r.stack.slipDistance >= 0 ? 'ahead of' : 'behind'} where it started` : 'the two blocks moved together the whole time'}.`] : []),
+  ...(r.collision && r.collision.events.length > 0 ? [`- **${r.surface}**: ${r.collision.events.length} impact(s); momentum is shared between the blocks at each one, and ${n(r.energy.workCollision)} J was lost.`] : []),
+  ...(r.segments ? [`- **${r.surface}**: ${r.segments.filter(s => s.reached).map(s => `${s.name} (${s.start}–${s.end} m) made ${n(s.heat, 0)} J of heat`).join(', ')}.`] : [])
+];
+
+const explainTakeaway = (results: SimulationResult[]): string => {
+  const finished = results.filter(r => r.completed).sort((a, b) => a.finalTime - b.finalTime);
+  const stuck = results.filter(r => !r.didMove);
+  const lines: string[] = [];
+  if (finished.length > 1) {
+    lines.push(`**${finished[0].surface}** was fastest (${n(finished[0].finalTime, 2)} s) and **${finished[finished.length - 1].surface}** slowest (${n(finished[finished.length - 1].finalTime, 2)} s): the more friction, the more of the push's work turns into heat instead of speed.`);
+  } else if (finished.length === 1) {
+    lines.push(`Only **${finished[0].surface}** made it to the finish, in ${n(finished[0].finalTime, 2)} s.`);
+  }
+  if (stuck.length > 0) {
+    lines.push(`Static friction decides whether anything happens at all: ${stuck.map(r => `**${r.surface}**`).join(', ')} never started moving.`);
+  }
+  lines.push('Static friction sets how hard you must push to get going; kinetic friction sets how quickly the block loses speed once it is sliding.');
+  return lines.join(' ');
+};
+
+export const explainOffline = (params: SimulationParams, surfaces: SurfaceConfig[], results: SimulationResult[]): string => {
+  const pairs = results
+    .map(r => ({ r, surface: surfaces.find(s => s.id === r.surfaceId) }))
+    .filter((pair): pair is { r: SimulationResult; surface: SurfaceConfig } => pair.surface !== undefined);
+  const moved = pairs.filter(({ r }) => r.didMove && !r.liftedOff);
+  const coasted = moved.filter(({ r }) => pushEndedDuringRun(params, r));
+  const details = results.flatMap(explainDetails);
+
+  return [
+    '### Why did some blocks move and others not?',
+    ...pairs.map(({ r, surface }) => explainBreakaway(params, surface, r)),
+    '',
+    '### Net force while moving',
+    ...(moved.length > 0 ? moved.map(({ r, surface }) => explainNetForce(params, surface, r)) : ['- Nothing moved, so the net force stayed zero: static friction matched the drive exactly.']),
+    '',
+    '### After the push stopped',
+    ...(coasted.length > 0
+      ? coasted.map(({ r, surface }) => explainCoasting(params, surface, r))
+      : [moved.length > 0 ? '- The drive was still on when every run ended, so there was no coasting phase.' : '- Nothing moved, so there was nothing to coast.']),
+    '',
+    '### Where did the energy go?',
+    'Work by push + work by gravity = kinetic energy + heat + losses to drag and impacts.',
+    ...results.map(explainEnergy),
+    ...(details.length > 0 ? ['', '### Details', ...details] : []),
+    '',
+    '### Physics takeaway',
+    explainTakeaway(results)
+  ].join('\n');
+};
@@ -0,0 +1,50 @@
+import { TutorSettings } from "../types";
+import { TUTOR_SYSTEM_INSTRUCTION } from "./tutorPrompt";
+
+// Any server speaking the OpenAI chat-completions API: llama.cpp's server,
+// Ollama, LM Studio, vLLM, or a hosted one. The key is optional for local ones.
+
+// A blocked endpoint often hangs rather than refusing; give up so the offline explainer can answer
+const REQUEST_TIMEOUT_MS = 30000;
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string } }[];
+}
+
+export const generateWithOpenAICompatible = async (prompt: string, settings: TutorSettings): Promise<string> => {
+  const endpoint = settings.endpoint.trim().replace(/\/+$/, '');
+  if (!endpoint) {
+    throw new Error("No endpoint URL set.");
+  }
+
+  const response = await fetch(`${endpoint}/chat/completions`, {
+    method: 'POST',
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    headers: {
+      'Content-Type': 'application/json',
+      ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {})
+    },
+    body: JSON.stringify({
+      model: settings.model,
+      messages: [
+        { role: 'system', content: TUTOR_SYSTEM_INSTRUCTION },
+        { role: 'user', content: prompt }
+      ]
+    })
+  }).catch((error: unknown) => {
+    if (error instanceof DOMException && error.name === 'TimeoutError') {
+      throw new Error(`${endpoint} did not answer within ${REQUEST_TIMEOUT_MS / 1000} s.`);
+    }
+    throw error;
+  });
+  if (!response.ok) {
+    throw new Error(`${endpoint} answered ${response.status} ${response.statusText}`.trim());
+  }
+
+  const data: ChatCompletionResponse = await response.json();
+  const text = data.choices?.[0]?.message?.content;
+  if (!text) {
+    throw new Error("The endpoint returned no explanation.");
+  }
+  return text;
+};
@@ -0,0 +1,156 @@
+import { SimulationParams, SurfaceConfig, SweepParameter, SweepMetric, SweepAxis, SweepRequest, SweepCell, SweepResult } from "../types";
+import { runHeadless } from "./simulationEngine";
+import { getBreakawayForce, getForceAngle } from "./forces";
+import { isStaticOffsetLocked, setKineticCoeff, setStaticCoeff } from "./surfaceLibrary";
+import { getSurfaceAt } from "./trackPatches";
+
+// Runs the engine headlessly over a grid of one or two inputs for a single
+// surface. Pure and synchronous; sweepWorker.ts keeps it off the UI thread.
+
+export const SWEEP_PARAMETERS: Record<SweepParameter, { label: string; unit: string; min: number }> = {
+  'appliedForce': { label: 'Applied Force', unit: 'N', min: 0 },
+  'mass': { label: 'Mass', unit: 'kg', min: 0.1 },
+  'forceDuration': { label: 'Force Duration', unit: 's', min: 0 },
+  'forceDistanceLimit': { label: 'Force Distance', unit: 'm', min: 0 },
+  'forceAngle': { label: 'Pull Angle', unit: '°', min: -85 },
+  'rampAngle': { label: 'Ramp Angle', unit: '°', min: 0 },
+  'staticFrictionCoeff': { label: 'μs', unit: '', min: 0 },
+  'kineticFrictionCoeff': { label: 'μk', unit: '', min: 0 }
+};
+
+export const SWEEP_METRICS: Record<SweepMetric, { label: string; unit: string }> = {
+  'finishTime': { label: 'Finish Time', unit: 's' },
+  'stopPosition': { label: 'Stop Position', unit: 'm' },
+  'moved': { label: 'Moved / Didn\'t Move', unit: '' }
+};
+
+export const MAX_SWEEP_STEPS_1D = 200;
+export const MAX_SWEEP_STEPS_2D = 40; // per axis; 1600 runs already takes a while
+
+// What the worker posts back while it runs
+export type SweepMessage =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'done'; result: SweepResult };
+
+// Inputs that do something in the current force mode
+export const getSweepParameters = (params: SimulationParams): SweepParameter[] => [
+  ...(params.forceMode !== 'profile' && params.forceMode !== 'hanging' ? ['appliedForce' as const] : []),
+  'mass',
+  ...(params.forceMode === 'timed' ? ['forceDuration' as const] : []),
+  ...(params.forceMode === 'distance' ? ['forceDistanceLimit' as const] : []),
+  ...(params.forceMode !== 'hanging' ? ['forceAngle' as const] : []),
+  'rampAngle',
+  'staticFrictionCoeff',
+  'kineticFrictionCoeff'
+];
+
+export const validateSweepAxis = (axis: SweepAxis, maxSteps: number): string[] => {
+  const { label, min } = SWEEP_PARAMETERS[axis.parameter];
+  const errors: string[] = [];
+  if (![axis.from, axis.to, axis.steps].every(Number.isFinite)) return [`${label}: range and steps must be numbers.`];
+  if (axis.from >= axis.to) errors.push(`${label}: the range must end above where it starts.`);
+  if (axis.from < min) errors.push(`${label}: cannot go below ${min}.`);
+  if (!Number.isInteger(axis.steps) || axis.steps < 2 || axis.steps > maxSteps) errors.push(`${label}: use 2 to ${maxSteps} steps.`);
+  return errors;
+};
+
+export const validateSweep = (x: SweepAxis, y: SweepAxis | null): string[] => {
+  if (!y) return validateSweepAxis(x, MAX_SWEEP_STEPS_1D);
+  const errors = [...validateSweepAxis(x, MAX_SWEEP_STEPS_2D), ...validateSweepAxis(y, MAX_SWEEP_STEPS_2D)];
+  if (x.parameter === y.parameter) errors.push('Pick two different inputs to sweep.');
+  return errors;
+};
+
+export const getSweepValues = (axis: SweepAxis): number[] =>
+  Array.from({ length: axis.steps }, (_, i) => axis.from + ((axis.to - axis.from) * i) / (axis.steps - 1));
+
+/**
+ * Puts one swept value in place. Coefficients follow the surface's lock like
+ * the sliders do; an unlocked surface takes them as given, with mu_s raised
+ * to mu_k where a sweep would push it below.
+ */
+const withSweepValue = (parameter: SweepParameter, value: number, params: SimulationParams, surface: SurfaceConfig): [SimulationParams, SurfaceConfig] => {
+  switch (parameter) {
+    case 'rampAngle':
+      return [params, { ...surface, rampAngle: value }];
+    case 'staticFrictionCoeff':
+    case 'kineticFrictionCoeff': {
+      if (isStaticOffsetLocked(surface)) {
+        return [params, parameter === 'kineticFrictionCoeff' ? setKineticCoeff(surface, value) : setStaticCoeff(surface, value)];
+      }
+      const next = { ...surface, [parameter]: value };
+      return [params, { ...next, staticFrictionCoeff: Math.max(next.staticFrictionCoeff, next.kineticFrictionCoeff) }];
+    }
+    default:
+      return [{ ...params, [parameter]: value }, surface];
+  }
+};
+
+const measureCell = (x: number, y: number | null, params: SimulationParams, surface: SurfaceConfig): SweepCell => {
+  const { state } = runHeadless(surface, params);
+  return {
+    x,
+    y,
+    finishTime: state.status === 'crossed-finish' ? state.timeElapsed : null,
+    stopPosition: state.position,
+    moved: state.position > 0
+  };
+};
+
+// Applied force at which the block just breaks free, for every value of the other axis.
+// A 1D force sweep gets a single point at y = 0
+const getBreakawayBoundary = (request: SweepRequest): { x: number; y: number }[] => {
+  const { params, surface, x, y } = request;
+  if (params.stack.enabled) return [];
+  const breakawayAt = (p: SimulationParams, s: SurfaceConfig) => getBreakawayForce(getSurfaceAt(s, 0), p, getForceAngle(p));
+
+  if (!y) {
+    if (x.parameter !== 'appliedForce') return [];
+    const force = breakawayAt(params, surface);
+    return Number.isFinite(force) ? [{ x: force, y: 0 }] : [];
+  }
+  if (x.parameter !== 'appliedForce' && y.parameter !== 'appliedForce') return [];
+  const forceOnX = x.parameter === 'appliedForce';
+  const other = forceOnX ? y : x;
+  return getSweepValues(other).flatMap(value => {
+    const force = breakawayAt(...withSweepValue(other.parameter, value, params, surface));
+    if (!Number.isFinite(force)) return [];
+    return [forceOnX ? { x: force, y: value } : { x: value, y: force }];
+  });
+};
+
+/**
+ * Runs every grid point to completion with the user's integrator and step.
+ * `onProgress` is called after each row (each point of a 1D sweep counts as
+ * its own row) so a worker can report how far along it is.
+ */
+export const runSweep = (request: SweepRequest, onProgress?: (done: number, total: number) => void): SweepResult => {
+  const { params, surface, x, y } = request;
+  const xs = getSweepValues(x);
+  const ys = y ? getSweepValues(y) : [null];
+  const total = xs.length * ys.length;
+  const cells: SweepCell[] = [];
+
+  ys.forEach(yValue => {
+    xs.forEach(xValue => {
+      let [p, s] = withSweepValue(x.parameter, xValue, params, surface);
+      if (y && yValue !== null) [p, s] = withSweepValue(y.parameter, yValue, p, s);
+      cells.push(measureCell(xValue, yValue, p, s));
+      if (!y) onProgress?.(cells.length, total);
+    });
+    if (y) onProgress?.(cells.length, total);
+  });
+
+  return { surfaceId: surface.id, x, y, cells, breakaway: getBreakawayBoundary(request) };
+};
+
+export const getCellValue = (cell: SweepCell, metric: SweepMetric): number | null => {
+  switch (metric) {
+    case 'finishTime':
+      return cell.finishTime;
+    case 'stopPosition':
+      return cell.stopPosition;
+    case 'moved':
+      return cell.moved ? 1 : 0;
+  }
+};
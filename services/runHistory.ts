@@ -0,0 +1,116 @@
+import { RunRecord, SimulationParams, SimulationResult, SurfaceConfig } from "../types";
+import { RUN_HISTORY_STORAGE_KEY, MAX_RUN_HISTORY } from "../constants";
+import { flatten } from "./dataExport";
+
+// Finished runs kept in localStorage so "10 kg vs 50 kg" can be compared
+// after the fact. Only params, surfaces and results are kept; frames are not.
+
+// One past the highest number still in the history, so labels keep counting up after old runs drop off
+export const nextRunNumber = (history: RunRecord[]): number =>
+  history.reduce((highest, run) => Math.max(highest, run.number), 0) + 1;
+
+export const createRunRecord = (
+  params: SimulationParams,
+  surfaces: SurfaceConfig[],
+  results: SimulationResult[],
+  number: number
+): RunRecord => ({
+  id: `run-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+  number,
+  label: `Run ${number}`,
+  notes: '',
+  createdAt: Date.now(),
+  params,
+  surfaces,
+  results
+});
+
+// Newest first, trimmed to MAX_RUN_HISTORY
+export const addRun = (history: RunRecord[], run: RunRecord): RunRecord[] => [run, ...history].slice(0, MAX_RUN_HISTORY);
+
+const isRunRecord = (value: unknown): value is RunRecord => {
+  if (typeof value !== 'object' || value === null) return false;
+  const r = value as RunRecord;
+  return typeof r.id === 'string'
+    && typeof r.label === 'string'
+    && typeof r.notes === 'string'
+    && typeof r.createdAt === 'number'
+    && typeof r.params === 'object' && r.params !== null
+    && Array.isArray(r.surfaces)
+    && Array.isArray(r.results);
+};
+
+// JSON has no Infinity or NaN and would write them as null, so any number that
+// isn't finite (a finish time, a breakaway force, an analytic stop time...) is
+// stored tagged and turned back into that number on load
+const NON_FINITE_KEY = '$nonFinite';
+
+const encodeNonFinite = (_key: string, value: unknown): unknown =>
+  typeof value === 'number' && !Number.isFinite(value) ? { [NON_FINITE_KEY]: String(value) } : value;
+
+const decodeNonFinite = (_key: string, value: unknown): unknown => {
+  if (typeof value !== 'object' || value === null) return value;
+  const tagged = (value as Record<string, unknown>)[NON_FINITE_KEY];
+  return typeof tagged === 'string' ? Number(tagged) : value;
+};
+
+// Histories saved before the tagging have null where Infinity was; these are the fields that can't be null
+const reviveResult = (result: SimulationResult): SimulationResult => ({
+  ...result,
+  finalTime: result.completed ? result.finalTime : Infinity,
+  breakawayForce: result.breakawayForce ?? Infinity,
+  minBreakawayForce: result.minBreakawayForce ?? Infinity
+});
+
+export const loadRunHistory = (): RunRecord[] => {
+  try {
+    const raw = localStorage.getItem(RUN_HISTORY_STORAGE_KEY);
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw, decodeNonFinite);
+    if (!Array.isArray(parsed)) return [];
+    // Older histories have no run numbers; newest first, so they count down from the top
+    return parsed.filter(isRunRecord).map((run, i, runs) => ({
+      ...run,
+      number: typeof run.number === 'number' ? run.number : runs.length - i,
+      results: run.results.map(reviveResult)
+    }));
+  } catch (error) {
+    console.error("Could not load run history:", error);
+    return [];
+  }
+};
+
+export const saveRunHistory = (history: RunRecord[]): void => {
+  try {
+    localStorage.setItem(RUN_HISTORY_STORAGE_KEY, JSON.stringify(history, encodeNonFinite));
+  } catch (error) {
+    console.error("Could not save run history:", error);
+  }
+};
+
+export interface SettingDiff {
+  setting: string;
+  values: string[]; // one per compared run, '—' where the run has no such setting
+}
+
+// The coefficients of each surface, keyed by name so a re-created surface still lines up
+const surfaceSettings = (surfaces: SurfaceConfig[]): [string, string][] =>
+  surfaces.flatMap(s => [
+    [`${s.name} μs`, String(s.staticFrictionCoeff)],
+    [`${s.name} μk`, String(s.kineticFrictionCoeff)],
+    [`${s.name} ramp`, s.rampAngle !== undefined ? `${s.rampAngle}°` : 'global'],
+    [`${s.name} model`, s.frictionModel?.type ?? 'coulomb'],
+    [`${s.name} patches`, String(s.patches?.length ?? 0)]
+  ]);
+
+/**
+ * Every param or surface setting that isn't the same in all of `runs`, in
+ * params-then-surfaces order. Everything else was held constant.
+ */
+export const diffRuns = (runs: RunRecord[]): SettingDiff[] => {
+  const settings = runs.map(run => new Map([...flatten(run.params, ''), ...surfaceSettings(run.surfaces)]));
+  const keys = [...new Set(settings.flatMap(map => [...map.keys()]))];
+  return keys
+    .map(setting => ({ setting, values: settings.map(map => map.get(setting) ?? '—') }))
+    .filter(diff => diff.values.some(value => value !== diff.values[0]));
+};
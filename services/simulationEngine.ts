@@ -0,0 +1,788 @@
+import { SimulationParams, SimulationState, SurfaceConfig, SimulationResult, ErrorReport, Trajectory, TrajectorySample, EnergyBalance, AnalyticSolution, MotionStatus, StackState, BodyState, CollisionEvent, SegmentResult } from "../types";
+import { IMPULSE_DURATION, MAX_SIMULATION_TIME, ENERGY_TOLERANCE, REFERENCE_TIME_STEP, GRAVITY } from "../constants";
+import { integrate } from "./integrators";
+import { solveAnalytic, timeToTravel } from "./analyticSolver";
+import { getRampAngle, getHangingWeight, getInertialMass, getTension, getNormalForce, getGravityAlongSlope, getDragForce, getPushAlong, getOptimalForceAngle, getBreakawayForce, getMinimumBreakawayForce } from "./forces";
+import { getSlidingFriction, hasClosedForm } from "./frictionModels";
+import { compileForceProfile } from "./forceProfile";
+import { getStackForces, getStackNormals, getTotalMass } from "./stackedBlocks";
+import { getBodyForces, resolveImpact } from "./collisions";
+import { getSurfaceAt, getTrackSegments, hasPatches } from "./trackPatches";
+
+// Pure, deterministic friction engine. No React, no wall-clock time:
+// the same params + surfaces + dt always produce the same output.
+
+export interface SimulationRun {
+  timeStep: number; // seconds per frame
+  frames: SimulationState[][]; // frames[k] = every track's state after k steps
+  trajectories: Trajectory[]; // one per surface, same order as the surfaces passed in
+}
+
+// Sim time a frame shows: the latest clock among its tracks. Snapped steps and
+// finished tracks make this differ from frame number × time step
+export const getFrameTime = (frame: SimulationState[]): number =>
+  frame.reduce((latest, state) => Math.max(latest, state.timeElapsed), 0);
+
+// The pushed block first, then the resting blocks in order along the track
+const createBodies = (params: SimulationParams): BodyState[] =>
+  [{ mass: params.mass, position: 0 }, ...[...params.collision.targets].sort((a, b) => a.position - b.position)]
+    .map(({ mass, position }) => ({ mass, position, velocity: 0, acceleration: 0, frictionForce: 0, status: 'stuck' }));
+
+export const createInitialState = (surface: SurfaceConfig, params: SimulationParams): SimulationState => ({
+  id: surface.id,
+  position: 0,
+  velocity: 0,
+  acceleration: 0,
+  timeElapsed: 0,
+  isFinished: false,
+  status: 'stuck',
+  frictionForce: 0,
+  dragForce: 0,
+  currentAppliedForce: getAppliedForce(0, 0, params),
+  tension: getTension(params, 0),
+  workApplied: 0,
+  workFriction: 0,
+  workGravity: 0,
+  workDrag: 0,
+  kineticEnergy: 0,
+  ...(params.stack.enabled ? { stack: { position: 0, velocity: 0, acceleration: 0, frictionForce: 0, slipping: false } } : {}),
+  ...(params.collision.enabled ? { bodies: createBodies(params), collisions: [], workCollision: 0 } : {})
+});
+
+
+export const isForceActive = (time: number, position: number, params: SimulationParams): boolean => {
+  switch (params.forceMode) {
+    case 'continuous':
+      return true;
+    case 'impulse':
+      return time < IMPULSE_DURATION;
+    case 'timed':
+      return time < params.forceDuration;
+    case 'distance':
+      return position < params.forceDistanceLimit;
+    case 'profile':
+      return compileForceProfile(params.forceProfile).forceAt(time, position) > 0;
+    case 'hanging':
+      return true;
+  }
+};
+
+// Push in Newtons at a given time and place
+export const getAppliedForce = (time: number, position: number, params: SimulationParams): number => {
+  if (params.forceMode === 'profile') return compileForceProfile(params.forceProfile).forceAt(time, position);
+  if (params.forceMode === 'hanging') return getHangingWeight(params);
+  return isForceActive(time, position, params) ? params.appliedForce : 0;
+};
+
+// Only a time-based profile can change the push on a block that isn't moving
+const pushMayStillChange = (time: number, params: SimulationParams): boolean => {
+  if (params.forceMode !== 'profile') return false;
+  const profile = compileForceProfile(params.forceProfile);
+  return profile.dependsOnTime && time < profile.endTime;
+};
+
+// Nothing left to happen on this track. A block stuck part-way along
+// still needs one step to be marked stopped-short
+export const isSettled = (state: SimulationState, params: SimulationParams): boolean =>
+  state.isFinished
+  || (state.status === 'stuck' && state.position === 0 && (state.stack?.position ?? 0) === 0 && !pushMayStillChange(state.timeElapsed, params));
+
+// Time until an active push switches off, assuming constant acceleration meanwhile
+const timeToForceCutoff = (state: SimulationState, params: SimulationParams, acceleration: number): number => {
+  switch (params.forceMode) {
+    case 'impulse':
+      return IMPULSE_DURATION - state.timeElapsed;
+    case 'timed':
+      return params.forceDuration - state.timeElapsed;
+    case 'distance':
+      return timeToTravel(state.velocity, acceleration, params.forceDistanceLimit - state.position);
+    default:
+      return Infinity;
+  }
+};
+
+/**
+ * Advances one track by a fixed step of `dt` seconds with `params.integrator`.
+ * Time only runs once the block has broken free of static friction, unless
+ * a time-based force profile is still building up.
+ *
+ * stuck -> sliding when the push beats mu_s·N; sliding -> stuck when friction
+ * brings it to rest; stuck -> stopped-short once the push can no longer change;
+ * sliding -> crossed-finish at the line.
+ *
+ * `endsAtCutoff` marks a snapped sub-step that ends exactly where the push
+ * switches off: the push keeps its value up to the end of that sub-step
+ * rather than being read as already off there.
+ */
+export const step = (
+  state: SimulationState,
+  surface: SurfaceConfig,
+  params: SimulationParams,
+  dt: number,
+  endsAtCutoff: boolean = false
+): SimulationState => {
+  if (state.isFinished) return state;
+  if (state.stack) return stepStack(state, state.stack, surface, params, dt);
+  if (state.bodies) return stepBodies(state, state.bodies, surface, params, dt);
+
+  const gravityAlong = getGravityAlongSlope(surface, params);
+  // An angled push changes the normal force, so friction depends on the push too.
+  // On a patched track the coefficients also depend on where the block is
+  const maxStaticFrictionAt = (push: number) => getSurfaceAt(surface, state.position).staticFrictionCoeff * getNormalForce(surface, params, push);
+  const frictionAt = (velocity: number, push: number, position: number) =>
+    getSlidingFriction(getSurfaceAt(surface, position), getNormalForce(surface, params, push), velocity);
+  const drivingAt = (push: number) => getPushAlong(params, push) + gravityAlong;
+  // A hanging mass and its pulley speed up with the block
+  const inertialMass = getInertialMass(params);
+  const pushForce = getAppliedForce(state.timeElapsed, state.position, params);
+
+  if (getNormalForce(surface, params, pushForce) < 0) {
+    // The pull's vertical part outweighs the block: it leaves the track and the model stops applying
+    return {
+      ...state,
+      status: 'lifted-off',
+      isFinished: true,
+      acceleration: 0,
+      frictionForce: 0,
+      dragForce: 0,
+      currentAppliedForce: pushForce
+    };
+  }
+
+  if (state.status === 'stuck' && drivingAt(pushForce) <= maxStaticFrictionAt(pushForce)) {
+    // Stuck: static friction cancels the push (and the slope's pull) exactly
+    const stuck = (time: number, push: number): SimulationState => ({
+      ...state,
+      timeElapsed: time,
+      velocity: 0,
+      acceleration: 0,
+      frictionForce: Math.max(0, Math.min(drivingAt(push), maxStaticFrictionAt(push))),
+      dragForce: 0,
+      currentAppliedForce: push,
+      tension: getTension(params, 0)
+    });
+    if (!pushMayStillChange(state.timeElapsed, params)) {
+      // Nothing will ever beat static friction now; part-way along that means it stopped short
+      const held = stuck(state.timeElapsed, pushForce);
+      return state.position > 0 ? { ...held, status: 'stopped-short', isFinished: true } : held;
+    }
+
+    // The clock keeps running while the push builds up
+    const nextTime = state.timeElapsed + dt;
+    const breaksFree = (time: number) => {
+      const push = getAppliedForce(time, state.position, params);
+      return drivingAt(push) > maxStaticFrictionAt(push);
+    };
+    if (params.snapToExact && breaksFree(nextTime)) {
+      // Bisect for the first instant the push beats static friction and slide from there
+      let lo = state.timeElapsed;
+      let hi = nextTime;
+      for (let i = 0; i < 50; i++) {
+        const mid = 0.5 * (lo + hi);
+        if (breaksFree(mid)) hi = mid;
+        else lo = mid;
+      }
+      return step({ ...state, timeElapsed: hi }, surface, params, nextTime - hi);
+    }
+    return stuck(nextTime, getAppliedForce(nextTime, state.position, params));
+  }
+
+  // Sliding (or breaking free this step)
+  let status: MotionStatus = 'sliding';
+  // Cutoff modes push with a constant force until they stop, so up to a cutoff it is the starting push
+  const pushAt = (time: number, position: number) => (endsAtCutoff ? pushForce : getAppliedForce(time, position, params));
+  // While sliding, kinetic friction and drag oppose motion; the push may switch off mid-step
+  const accelerationAt = (time: number, position: number, velocity: number) => {
+    const push = pushAt(time, position);
+    return (drivingAt(push) - frictionAt(velocity, push, position) - getDragForce(params, velocity)) / inertialMass;
+  };
+
+  const startAcceleration = accelerationAt(state.timeElapsed, state.position, state.velocity);
+  let acceleration = startAcceleration;
+
+  if (params.snapToExact && pushForce > 0) {
+    // Split the step exactly where the push switches off
+    const toCutoff = timeToForceCutoff(state, params, startAcceleration);
+    if (toCutoff > 1e-12 && toCutoff < dt) {
+      const atCutoff = step(state, surface, params, toCutoff, true);
+      return atCutoff.isFinished ? atCutoff : step(atCutoff, surface, params, dt - toCutoff);
+    }
+  }
+
+  const next = integrate(params.integrator, state.timeElapsed, state.position, state.velocity, dt, accelerationAt);
+  let velocity = next.velocity;
+  // Never let the discrete step carry it backwards past where it came to rest
+  let position = Math.max(next.position, state.position);
+
+  const pushAtEnd = pushAt(state.timeElapsed + dt, position);
+  if (velocity <= 0 && drivingAt(pushAtEnd) <= frictionAt(0, pushAtEnd, position)) {
+    // Friction has brought it to rest. It re-sticks, and only restarts if the
+    // push later beats static friction again; if the push can't change, it's done
+    velocity = 0;
+    acceleration = 0;
+    status = pushMayStillChange(state.timeElapsed + dt, params) ? 'stuck' : 'stopped-short';
+  }
+
+  if (position >= params.distance) {
+    position = params.distance;
+    status = 'crossed-finish';
+  }
+
+  let elapsed = dt;
+  if (params.snapToExact && status !== 'sliding') {
+    // Replace the overshooting step with the exact constant-acceleration sub-step to the event
+    // (a first-order estimate when friction changes with speed)
+    const toRest = startAcceleration < 0 ? state.velocity / -startAcceleration : Infinity;
+    const toFinish = timeToTravel(state.velocity, startAcceleration, params.distance - state.position);
+    const toEvent = Math.min(toRest, toFinish);
+    if (toEvent <= dt) {
+      elapsed = toEvent;
+      velocity = toRest <= toFinish ? 0 : state.velocity + startAcceleration * toEvent;
+      position = toRest <= toFinish
+        ? state.position + state.velocity * toEvent + 0.5 * startAcceleration * toEvent * toEvent
+        : params.distance;
+    }
+  }
+
+  if (endsAtCutoff && params.forceMode === 'distance' && status === 'sliding') {
+    // Land on the cutoff itself, so rounding can't leave the push on for the next step
+    position = Math.max(position, params.forceDistanceLimit);
+  }
+
+  // Work is force times displacement; static friction never does any.
+  // Forces that change over the step are averaged (trapezoid rule)
+  const dx = position - state.position;
+  const endPush = pushAt(state.timeElapsed + elapsed, position);
+  const pushAlong = 0.5 * (getPushAlong(params, pushForce) + getPushAlong(params, endPush));
+  const frictionForce = 0.5 * (frictionAt(state.velocity, pushForce, state.position) + frictionAt(velocity, endPush, position));
+  const dragForce = 0.5 * (getDragForce(params, state.velocity) + getDragForce(params, velocity));
+  return {
+    ...state,
+    status,
+    acceleration,
+    velocity,
+    position,
+    timeElapsed: state.timeElapsed + elapsed,
+    isFinished: status === 'stopped-short' || status === 'crossed-finish',
+    frictionForce,
+    dragForce,
+    currentAppliedForce: endPush,
+    tension: getTension(params, acceleration),
+    workApplied: state.workApplied + pushAlong * dx,
+    workFriction: state.workFriction + frictionForce * dx,
+    workGravity: state.workGravity + gravityAlong * dx,
+    workDrag: state.workDrag + dragForce * dx,
+    kineticEnergy: 0.5 * inertialMass * velocity * velocity
+  };
+};
+
+/**
+ * One step of a two-block stack. The blocks are coupled through friction, so
+ * this uses its own constant-acceleration update rather than `params.integrator`,
+ * and snap-to-exact only applies to single blocks. Position and velocity on
+ * `state` are the bottom block's.
+ */
+const stepStack = (
+  state: SimulationState,
+  top: StackState,
+  surface: SurfaceConfig,
+  params: SimulationParams,
+  dt: number
+): SimulationState => {
+  const pushForce = getAppliedForce(state.timeElapsed, state.position, params);
+  const here = getSurfaceAt(surface, state.position);
+  const normals = getStackNormals(surface, params, pushForce);
+  if (normals.between < 0 || normals.track < 0) {
+    return { ...state, status: 'lifted-off', isFinished: true, acceleration: 0, frictionForce: 0, dragForce: 0, currentAppliedForce: pushForce };
+  }
+
+  const start = getStackForces(here, params, pushForce, state.velocity, top.velocity);
+  const atRest = state.velocity === 0 && top.velocity === 0;
+  if (atRest && !start.slipping && start.bottomAcceleration === 0) {
+    // Both interfaces holding
+    const stuck = (time: number, push: number): SimulationState => {
+      const held = getStackForces(here, params, push, 0, 0);
+      return {
+        ...state,
+        timeElapsed: time,
+        acceleration: 0,
+        frictionForce: held.trackFriction,
+        dragForce: 0,
+        currentAppliedForce: push,
+        stack: { ...top, acceleration: 0, frictionForce: held.betweenFriction, slipping: false }
+      };
+    };
+    if (!pushMayStillChange(state.timeElapsed, params)) {
+      const held = stuck(state.timeElapsed, pushForce);
+      const moved = state.position > 0 || top.position > 0;
+      return moved ? { ...held, status: 'stopped-short', isFinished: true } : held;
+    }
+    const nextTime = state.timeElapsed + dt;
+    return stuck(nextTime, getAppliedForce(nextTime, state.position, params));
+  }
+
+  let bottomVelocity = state.velocity + start.bottomAcceleration * dt;
+  let topVelocity = top.velocity + start.topAcceleration * dt;
+  const relativeBefore = top.velocity - state.velocity;
+  if (start.slipping && relativeBefore !== 0 && Math.sign(topVelocity - bottomVelocity) !== Math.sign(relativeBefore)) {
+    // The slip closed within the step: B grips A again at the crossing speed
+    const toGrip = relativeBefore / (start.bottomAcceleration - start.topAcceleration);
+    bottomVelocity = topVelocity = state.velocity + start.bottomAcceleration * toGrip;
+  }
+  // Friction stops a block, it never sends it backwards
+  bottomVelocity = Math.max(0, bottomVelocity);
+  topVelocity = Math.max(0, topVelocity);
+
+  let position = state.position + 0.5 * (state.velocity + bottomVelocity) * dt;
+  let topPosition = top.position + 0.5 * (top.velocity + topVelocity) * dt;
+
+  let status: MotionStatus = 'sliding';
+  const pushAtEnd = getAppliedForce(state.timeElapsed + dt, position, params);
+  if (bottomVelocity === 0 && topVelocity === 0) {
+    const end = getStackForces(getSurfaceAt(surface, position), params, pushAtEnd, 0, 0);
+    if (!end.slipping && end.bottomAcceleration === 0) {
+      status = pushMayStillChange(state.timeElapsed + dt, params) ? 'stuck' : 'stopped-short';
+    }
+  }
+  if (position >= params.distance) {
+    const unclamped = position;
+    position = params.distance;
+    status = 'crossed-finish';
+    // Carry B across with A so the slip between them is unchanged
+    topPosition -= unclamped - position;
+  } else if (Math.abs(topPosition - position) > params.stack.bottomLength / 2) {
+    // B has run off the end of A; from here the two-block model no longer applies
+    status = 'slid-off';
+  }
+
+  // Static friction between the blocks is internal and does no net work; slipping turns
+  // mu_k·N times the sliding distance into heat
+  const dx = position - state.position;
+  const dxTop = topPosition - top.position;
+  const sin = Math.sin((getRampAngle(surface, params) * Math.PI) / 180);
+  const pushAlong = 0.5 * (getPushAlong(params, pushForce) + getPushAlong(params, pushAtEnd));
+  const dragForce = 0.5 * (getDragForce(params, state.velocity) + getDragForce(params, bottomVelocity));
+  const slipHeat = start.slipping ? Math.abs(start.betweenFriction * (dxTop - dx)) : 0;
+  return {
+    ...state,
+    status,
+    acceleration: start.bottomAcceleration,
+    velocity: bottomVelocity,
+    position,
+    timeElapsed: state.timeElapsed + dt,
+    isFinished: status !== 'sliding' && status !== 'stuck',
+    frictionForce: start.trackFriction,
+    dragForce,
+    currentAppliedForce: pushAtEnd,
+    workApplied: state.workApplied + pushAlong * (params.stack.pushOn === 'top' ? dxTop : dx),
+    workFriction: state.workFriction + start.trackFriction * dx + slipHeat,
+    workGravity: state.workGravity + GRAVITY * sin * (params.mass * dx + params.stack.topMass * dxTop),
+    workDrag: state.workDrag + dragForce * dx,
+    kineticEnergy: 0.5 * params.mass * bottomVelocity ** 2 + 0.5 * params.stack.topMass * topVelocity ** 2,
+    stack: {
+      position: topPosition,
+      velocity: topVelocity,
+      acceleration: start.topAcceleration,
+      frictionForce: start.betweenFriction,
+      slipping: start.slipping
+    }
+  };
+};
+
+/**
+ * One step of a multi-body track. Each block moves at constant acceleration
+ * under its own friction, then any block that has caught the one ahead of it
+ * is bounced off it with the configured restitution. Like a stack, this skips
+ * `params.integrator` and snap-to-exact. Work and kinetic energy cover every
+ * body; the rest of `state` follows bodies[0].
+ */
+const stepBodies = (
+  state: SimulationState,
+  bodies: BodyState[],
+  surface: SurfaceConfig,
+  params: SimulationParams,
+  dt: number
+): SimulationState => {
+  const pushForce = getAppliedForce(state.timeElapsed, state.position, params);
+  if (getNormalForce(surface, params, pushForce) < 0) {
+    return { ...state, status: 'lifted-off', isFinished: true, acceleration: 0, frictionForce: 0, dragForce: 0, currentAppliedForce: pushForce };
+  }
+
+  // Only the first block is pushed; blocks over the line have left the track
+  const pushOn = (index: number, push: number) => (index === 0 ? push : 0);
+  const forcesAt = (push: number, body: BodyState, index: number) =>
+    body.status === 'crossed-finish' ? null : getBodyForces(getSurfaceAt(surface, body.position), params, body.mass, body.velocity, pushOn(index, push));
+  const start = bodies.map((body, i) => forcesAt(pushForce, body, i));
+  const isHeld = (body: BodyState, i: number) => {
+    const forces = start[i];
+    return forces === null || (body.velocity === 0 && forces.acceleration === 0);
+  };
+
+  if (bodies.every(isHeld)) {
+    const stuck = (time: number, push: number): SimulationState => ({
+      ...state,
+      timeElapsed: time,
+      acceleration: 0,
+      frictionForce: forcesAt(push, bodies[0], 0)?.friction ?? 0,
+      dragForce: 0,
+      currentAppliedForce: push,
+      bodies: bodies.map(body => ({ ...body, acceleration: 0 }))
+    });
+    if (!pushMayStillChange(state.timeElapsed, params)) {
+      const held = stuck(state.timeElapsed, pushForce);
+      return bodies[0].position !== 0 ? { ...held, status: 'stopped-short', isFinished: true } : held;
+    }
+    const nextTime = state.timeElapsed + dt;
+    return stuck(nextTime, getAppliedForce(nextTime, state.position, params));
+  }
+
+  // Forces are held at their start-of-step values, so each one's work is exactly
+  // force times displacement and the energy books balance
+  let workApplied = 0;
+  let workFriction = 0;
+  let workGravity = 0;
+  let workDrag = 0;
+  const next = bodies.map((body, i): BodyState => {
+    const forces = start[i];
+    if (!forces) return body;
+    let velocity = body.velocity + forces.acceleration * dt;
+    let elapsed = dt;
+    if (body.velocity !== 0 && Math.sign(velocity) !== Math.sign(body.velocity)) {
+      // Friction brought it to rest part-way through the step; it never reverses on its own
+      elapsed = body.velocity / -forces.acceleration;
+      velocity = 0;
+    }
+    const position = body.position + 0.5 * (body.velocity + velocity) * elapsed;
+    const dx = position - body.position;
+    workApplied += getPushAlong(params, pushOn(i, pushForce)) * dx;
+    workGravity += getGravityAlongSlope(surface, { ...params, mass: body.mass }) * dx;
+    workFriction += forces.friction * Math.abs(dx);
+    workDrag += forces.drag * Math.abs(dx);
+    return { ...body, position, velocity, acceleration: forces.acceleration, frictionForce: forces.friction, status: velocity === 0 ? 'stuck' : 'sliding' };
+  });
+
+  // A block that has reached the one ahead while closing on it bounces off.
+  // Repeat until no pair is closing, so a hit can pass down a row of blocks
+  const time = state.timeElapsed + dt;
+  const collisions: CollisionEvent[] = [];
+  let workCollision = 0;
+  for (let pass = 0; pass < 10 * next.length; pass++) {
+    let hit = false;
+    for (let i = 0; i + 1 < next.length; i++) {
+      const rear = next[i];
+      const front = next[i + 1];
+      if (front.status === 'crossed-finish' || rear.position < front.position || rear.velocity <= front.velocity) continue;
+      const after = resolveImpact(rear.mass, rear.velocity, front.mass, front.velocity, params.collision.restitution);
+      const energyBefore = 0.5 * rear.mass * rear.velocity ** 2 + 0.5 * front.mass * front.velocity ** 2;
+      const energyAfter = 0.5 * rear.mass * after.rear ** 2 + 0.5 * front.mass * after.front ** 2;
+      // Blocks already touching at the start of the step are being pushed along
+      // together, and a pair that re-touches within the chain is the same impact;
+      // the energy still counts either way
+      const isNewImpact = bodies[i].position < bodies[i + 1].position && !collisions.some(event => event.bodies[0] === i);
+      if (isNewImpact) collisions.push({
+        time,
+        position: front.position,
+        bodies: [i, i + 1],
+        momentumBefore: rear.mass * rear.velocity + front.mass * front.velocity,
+        momentumAfter: rear.mass * after.rear + front.mass * after.front,
+        energyLost: energyBefore - energyAfter
+      });
+      workCollision += energyBefore - energyAfter;
+      next[i] = { ...rear, position: front.position, velocity: after.rear, status: after.rear === 0 ? 'stuck' : 'sliding' };
+      next[i + 1] = { ...front, velocity: after.front, status: after.front === 0 ? 'stuck' : 'sliding' };
+      hit = true;
+    }
+    if (!hit) break;
+  }
+
+  next.forEach((body, i) => {
+    if (body.status !== 'crossed-finish' && body.position >= params.distance) {
+      next[i] = { ...body, position: params.distance, status: 'crossed-finish' };
+    }
+  });
+
+  // The track keeps running while any block is moving or about to break free
+  const pushAtEnd = getAppliedForce(time, next[0].position, params);
+  const moving = next.some((body, i) => body.status !== 'crossed-finish'
+    && (body.velocity !== 0 || forcesAt(pushAtEnd, body, i)!.acceleration !== 0));
+  let status: MotionStatus = 'sliding';
+  if (!moving) {
+    if (next[0].status === 'crossed-finish') status = 'crossed-finish';
+    else status = pushMayStillChange(time, params) ? 'stuck' : 'stopped-short';
+  }
+
+  const lead = next[0];
+  return {
+    ...state,
+    status,
+    acceleration: lead.acceleration,
+    velocity: lead.velocity,
+    position: lead.position,
+    timeElapsed: time,
+    isFinished: status === 'stopped-short' || status === 'crossed-finish',
+    frictionForce: lead.frictionForce,
+    dragForce: start[0]?.drag ?? 0,
+    currentAppliedForce: pushAtEnd,
+    workApplied: state.workApplied + workApplied,
+    workFriction: state.workFriction + workFriction,
+    workGravity: state.workGravity + workGravity,
+    workDrag: state.workDrag + workDrag,
+    workCollision: (state.workCollision ?? 0) + workCollision,
+    kineticEnergy: next.reduce((sum, body) => sum + 0.5 * body.mass * body.velocity ** 2, 0),
+    bodies: next,
+    collisions: collisions.length > 0 ? [...(state.collisions ?? []), ...collisions] : state.collisions
+  };
+};
+
+const toSample = (state: SimulationState): TrajectorySample => ({
+  time: state.timeElapsed,
+  position: state.position,
+  velocity: state.velocity,
+  acceleration: state.acceleration,
+  appliedForce: state.currentAppliedForce,
+  frictionForce: state.frictionForce,
+  dragForce: state.dragForce,
+  tension: state.tension,
+  topVelocity: state.stack?.velocity,
+  bodyPositions: state.bodies?.map(body => body.position),
+  bodyVelocities: state.bodies?.map(body => body.velocity)
+});
+
+/**
+ * Steps every surface with a fixed `dt` until nothing is moving and
+ * returns every frame so the UI can replay it, plus each surface's
+ * recorded trajectory.
+ */
+export const runToCompletion = (
+  params: SimulationParams,
+  surfaces: SurfaceConfig[],
+  dt: number = params.timeStep
+): SimulationRun => {
+  let states = surfaces.map(s => createInitialState(s, params));
+  const frames: SimulationState[][] = [states];
+  const trajectories: Trajectory[] = states.map(state => ({ surfaceId: state.id, samples: [toSample(state)] }));
+  const maxSteps = Math.ceil(MAX_SIMULATION_TIME / dt);
+
+  for (let i = 0; i < maxSteps; i++) {
+    const prevStates = states;
+    states = states.map((state, idx) => step(state, surfaces[idx], params, dt));
+    frames.push(states);
+    states.forEach((state, idx) => {
+      // Finished tracks return the same object; nothing new to record
+      if (state !== prevStates[idx]) trajectories[idx].samples.push(toSample(state));
+    });
+    if (states.every(s => isSettled(s, params))) break;
+  }
+
+  return { timeStep: dt, frames, trajectories };
+};
+
+export interface HeadlessRun {
+  state: SimulationState; // where the track ended up
+  maxVelocity: number; // m/s, fastest the block went on the way
+}
+
+// One track to the end without keeping frames, for callers that only need the outcome
+export const runHeadless = (surface: SurfaceConfig, params: SimulationParams): HeadlessRun => {
+  let state = createInitialState(surface, params);
+  let maxVelocity = 0;
+  const maxSteps = Math.ceil(MAX_SIMULATION_TIME / params.timeStep);
+  for (let i = 0; i < maxSteps; i++) {
+    state = step(state, surface, params, params.timeStep);
+    maxVelocity = Math.max(maxVelocity, state.velocity);
+    if (isSettled(state, params)) break;
+  }
+  return { state, maxVelocity };
+};
+
+const compare = (numerical: number, analytic: number): ErrorReport => {
+  const absoluteError = Math.abs(numerical - analytic);
+  return {
+    numerical,
+    analytic,
+    absoluteError,
+    relativeError: analytic !== 0 ? absoluteError / Math.abs(analytic) : 0
+  };
+};
+
+// Everything starts at rest, so dKE is just the final kinetic energy
+const energyBalance = (state: SimulationState): EnergyBalance => {
+  const workIn = state.workApplied + state.workGravity;
+  const workCollision = state.workCollision ?? 0;
+  const residual = workIn - state.workFriction - state.workDrag - workCollision - state.kineticEnergy;
+  return {
+    workApplied: state.workApplied,
+    workGravity: state.workGravity,
+    workFriction: state.workFriction,
+    workDrag: state.workDrag,
+    workCollision,
+    kineticEnergy: state.kineticEnergy,
+    deltaKineticEnergy: state.kineticEnergy,
+    residual,
+    balanced: Math.abs(residual) <= ENERGY_TOLERANCE * Math.max(workIn, 1)
+  };
+};
+
+/**
+ * Stands in for the closed form when friction depends on speed: a fine RK4
+ * run of the same surface, with events read off the recorded steps.
+ */
+const solveReference = (surface: SurfaceConfig, params: SimulationParams): AnalyticSolution => {
+  const fine = { ...params, integrator: 'rk4' as const, snapToExact: true };
+  const dt = Math.min(REFERENCE_TIME_STEP, params.timeStep);
+  const maxSteps = Math.ceil(MAX_SIMULATION_TIME / dt);
+  let state = createInitialState(surface, fine);
+  let maxVelocity = 0;
+  let forceCutoff: number | null = null;
+  let breakaway: number | null = null;
+
+  // Like runToCompletion, step before asking: the initial state looks settled until the push is tried
+  for (let i = 0; i < maxSteps; i++) {
+    const next = step(state, surface, fine, dt);
+    // Within one fine step of the true instant
+    if (breakaway === null && next.velocity > 0) breakaway = state.timeElapsed;
+    if (forceCutoff === null && state.currentAppliedForce > 0 && !isForceActive(next.timeElapsed, next.position, fine)) {
+      forceCutoff = next.timeElapsed;
+    }
+    maxVelocity = Math.max(maxVelocity, next.velocity);
+    state = next;
+    if (isSettled(state, fine)) break;
+  }
+
+  const didMove = state.position > 0;
+  const reachedFinish = state.position >= params.distance;
+  return {
+    didMove,
+    reachedFinish,
+    stopTime: state.timeElapsed,
+    stopDistance: state.position,
+    maxVelocity,
+    events: {
+      breakaway,
+      forceCutoff,
+      finishCrossing: reachedFinish ? state.timeElapsed : null,
+      rest: didMove && !reachedFinish && state.isFinished ? state.timeElapsed : null
+    },
+    phases: []
+  };
+};
+
+// Time-weighted over the steps spent sliding, or `atRest` if it never slid
+const averageSlidingTension = (samples: TrajectorySample[], atRest: number): number => {
+  let impulse = 0;
+  let duration = 0;
+  for (let i = 1; i < samples.length; i++) {
+    if (samples[i].velocity <= 0 && samples[i - 1].velocity <= 0) continue;
+    const dt = samples[i].time - samples[i - 1].time;
+    impulse += samples[i].tension * dt;
+    duration += dt;
+  }
+  return duration > 0 ? impulse / duration : atRest;
+};
+
+// Each recorded step is booked to the stretch of track its midpoint lies on
+const breakDownBySegment = (surface: SurfaceConfig, samples: TrajectorySample[], params: SimulationParams): SegmentResult[] => {
+  const segments = getTrackSegments(surface, params.distance);
+  const indexAt = (position: number) => {
+    const i = segments.findIndex(segment => position < segment.end);
+    return i === -1 ? segments.length - 1 : i;
+  };
+  const totals = segments.map(() => ({ timeSpent: 0, heat: 0, workApplied: 0 }));
+  for (let i = 1; i < samples.length; i++) {
+    const prev = samples[i - 1];
+    const cur = samples[i];
+    const dx = cur.position - prev.position;
+    const total = totals[indexAt(0.5 * (prev.position + cur.position))];
+    total.timeSpent += cur.time - prev.time;
+    total.heat += cur.frictionForce * Math.abs(dx);
+    total.workApplied += getPushAlong(params, cur.appliedForce) * dx;
+  }
+  return segments.map((segment, i) => {
+    const arrival = samples.find(p => p.position >= segment.start);
+    return {
+      name: segment.name,
+      color: segment.color,
+      start: segment.start,
+      end: segment.end,
+      reached: arrival !== undefined,
+      entrySpeed: arrival?.velocity ?? null,
+      ...totals[i]
+    };
+  });
+};
+
+/**
+ * Summarises a finished run per surface, alongside the closed-form answer
+ * so the integrator's error can be reported.
+ */
+export const computeResults = (
+  run: SimulationRun,
+  surfaces: SurfaceConfig[],
+  params: SimulationParams
+): SimulationResult[] => {
+  const finalStates = run.frames[run.frames.length - 1];
+  return finalStates.map((state, idx) => {
+    const surface = surfaces.find(s => s.id === state.id)!;
+    // Breakaway happens on whatever covers the start line
+    const startSurface = getSurfaceAt(surface, 0);
+    // The track carries the whole stack, so its limits are those of one block with the total mass
+    const whole = state.stack ? { ...params, mass: getTotalMass(params) } : params;
+    // Static friction's ceiling at the start, with any angled push already acting
+    const normalForce = getNormalForce(surface, whole, getAppliedForce(0, 0, params));
+    const { samples } = run.trajectories[idx];
+    const maxVelocity = samples.reduce((max, p) => Math.max(max, p.velocity), 0);
+    const peakAcceleration = samples.reduce((max, p) => Math.max(max, Math.abs(p.acceleration)), 0);
+    // The last sample before it first has speed is when it broke free
+    const firstMoving = samples.findIndex(p => p.velocity > 0 || (p.topVelocity ?? 0) > 0);
+    // Drag, force profiles, stacks, impacts and patches make the acceleration vary too, so no closed form either
+    const exact = hasClosedForm(surface) && !hasPatches(surface) && !params.airDrag && params.forceMode !== 'profile' && !state.stack && !state.bodies;
+    const analytic = exact ? solveAnalytic(surface, params) : solveReference(surface, params);
+    return {
+      surfaceId: state.id,
+      surface: surface.name,
+      finalTime: state.status === 'crossed-finish' ? state.timeElapsed : Infinity,
+      completed: state.status === 'crossed-finish',
+      stopPosition: state.position,
+      status: state.status,
+      maxVelocity,
+      peakAcceleration,
+      breakawayTime: firstMoving > 0 ? samples[firstMoving - 1].time : null,
+      didMove: state.position > 0 || (state.stack?.position ?? 0) > 0,
+      staticFrictionLimit: startSurface.staticFrictionCoeff * Math.max(0, normalForce),
+      appliedForce: params.forceMode === 'profile'
+        ? samples.reduce((max, p) => Math.max(max, p.appliedForce), 0)
+        : getAppliedForce(0, 0, params),
+      tension: params.forceMode === 'hanging' ? averageSlidingTension(samples, getHangingWeight(params)) : null,
+      forceMode: params.forceMode,
+      liftedOff: state.status === 'lifted-off',
+      optimalForceAngle: getOptimalForceAngle(startSurface),
+      breakawayForce: getBreakawayForce(startSurface, whole, params.forceAngle),
+      minBreakawayForce: getMinimumBreakawayForce(startSurface, whole),
+      ...(state.stack ? {
+        stack: {
+          slipped: run.frames.some(frame => frame[idx].stack?.slipping === true),
+          slipDistance: state.stack.position - state.position,
+          topMaxVelocity: samples.reduce((max, p) => Math.max(max, p.topVelocity ?? 0), 0)
+        }
+      } : {}),
+      ...(state.bodies ? {
+        collision: {
+          events: state.collisions ?? [],
+          stopDistances: state.bodies.map(body => body.position),
+          masses: state.bodies.map(body => body.mass)
+        }
+      } : {}),
+      ...(hasPatches(surface) ? { segments: breakDownBySegment(surface, samples, params) } : {}),
+      analytic,
+      accuracy: {
+        integrator: params.integrator,
+        reference: exact ? 'exact' : 'fine-step',
+        timeStep: run.timeStep,
+        stopTime: compare(state.timeElapsed, analytic.stopTime),
+        stopDistance: compare(state.position, analytic.stopDistance),
+        maxVelocity: compare(maxVelocity, analytic.maxVelocity)
+      },
+      energy: energyBalance(state)
+    };
+  });
+};
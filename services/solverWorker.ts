@@ -0,0 +1,12 @@
+import { SolverRequest } from "../types";
+import { solveAll, SolverMessage } from "./inverseSolver";
+
+// Web Worker entry: one solve per message, progress per surface, then the answers.
+// Started from InverseSolver with `new Worker(new URL(...), { type: 'module' })`
+
+const post = (message: SolverMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<SolverRequest>) => {
+  const solutions = solveAll(event.data, (done, total) => post({ type: 'progress', done, total }));
+  post({ type: 'done', solutions });
+};
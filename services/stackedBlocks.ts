@@ -0,0 +1,102 @@
+import { SimulationParams, SurfaceConfig, StackConfig } from "../types";
+import { GRAVITY } from "../constants";
+import { getRampAngle, getPushAlong, getPushLift, getDragForce } from "./forces";
+import { getSlidingFriction } from "./frictionModels";
+
+// Block B resting on block A, with A on the track. Two friction interfaces:
+// B–A uses the stack's own coefficients, A–track uses the surface's.
+
+const toRadians = (deg: number) => (deg * Math.PI) / 180;
+
+export const getTotalMass = (params: SimulationParams): number => params.mass + params.stack.topMass;
+
+export interface StackNormals {
+  between: number; // Newtons pressing B onto A
+  track: number; // Newtons pressing A onto the track
+}
+
+// A lifting pull on B unloads both interfaces; on A it only unloads the track
+export const getStackNormals = (surface: SurfaceConfig, params: SimulationParams, push: number): StackNormals => {
+  const cos = Math.cos(toRadians(getRampAngle(surface, params)));
+  const lift = getPushLift(params, push);
+  return {
+    between: params.stack.topMass * GRAVITY * cos - (params.stack.pushOn === 'top' ? lift : 0),
+    track: getTotalMass(params) * GRAVITY * cos - lift
+  };
+};
+
+export interface StackForces {
+  bottomAcceleration: number; // m/s^2
+  topAcceleration: number; // m/s^2
+  betweenFriction: number; // Newtons on B from A, positive forward; A feels the opposite
+  trackFriction: number; // Newtons on A from the track, against the motion
+  slipping: boolean;
+}
+
+/**
+ * Accelerations of both blocks for a given push and velocities. The blocks
+ * ride together unless holding B would take more than mu_s·N between them,
+ * in which case kinetic friction acts in the direction that closes the gap.
+ * Drag acts on the bottom block, which leads the stack through the air.
+ */
+export const getStackForces = (
+  surface: SurfaceConfig,
+  params: SimulationParams,
+  push: number,
+  bottomVelocity: number,
+  topVelocity: number
+): StackForces => {
+  const { stack } = params;
+  const sin = Math.sin(toRadians(getRampAngle(surface, params)));
+  const pushAlong = getPushAlong(params, push);
+  const normals = getStackNormals(surface, params, push);
+  const mA = params.mass;
+  const mB = stack.topMass;
+  const driveTop = (stack.pushOn === 'top' ? pushAlong : 0) + mB * GRAVITY * sin;
+  const driveBottom = (stack.pushOn === 'bottom' ? pushAlong : 0) + mA * GRAVITY * sin - getDragForce(params, bottomVelocity);
+  const maxStaticTrack = surface.staticFrictionCoeff * normals.track;
+
+  // Track friction on A for a net forward drive: static up to its limit while A is at rest
+  const trackFrictionFor = (drive: number): number => {
+    if (bottomVelocity > 0) return getSlidingFriction(surface, normals.track, bottomVelocity);
+    if (drive <= maxStaticTrack) return Math.max(0, drive);
+    return getSlidingFriction(surface, normals.track, 0);
+  };
+
+  let slipDirection: number;
+  if (bottomVelocity === topVelocity) {
+    // Try moving as one body, then see what friction B would need to keep up
+    const driveTotal = driveTop + driveBottom;
+    const trackFriction = trackFrictionFor(driveTotal);
+    const together = bottomVelocity > 0 || driveTotal > maxStaticTrack ? (driveTotal - trackFriction) / (mA + mB) : 0;
+    const needed = mB * together - driveTop;
+    if (Math.abs(needed) <= stack.staticFrictionCoeff * normals.between) {
+      return { bottomAcceleration: together, topAcceleration: together, betweenFriction: needed, trackFriction, slipping: false };
+    }
+    slipDirection = Math.sign(needed);
+  } else {
+    slipDirection = bottomVelocity > topVelocity ? 1 : -1;
+  }
+
+  const betweenFriction = slipDirection * stack.kineticFrictionCoeff * normals.between;
+  const driveBottomSlipping = driveBottom - betweenFriction;
+  const trackFriction = trackFrictionFor(driveBottomSlipping);
+  return {
+    bottomAcceleration: bottomVelocity > 0 || driveBottomSlipping > maxStaticTrack ? (driveBottomSlipping - trackFriction) / mA : 0,
+    topAcceleration: (driveTop + betweenFriction) / mB,
+    betweenFriction,
+    trackFriction,
+    slipping: true
+  };
+};
+
+export const validateStack = (stack: StackConfig): string[] => {
+  const errors: string[] = [];
+  const { topMass, staticFrictionCoeff: mus, kineticFrictionCoeff: muk } = stack;
+  if (![topMass, mus, muk, stack.bottomLength].every(Number.isFinite)) return ['Stack masses, coefficients and length must be numbers.'];
+  if (topMass <= 0) errors.push('Top block mass must be greater than 0.');
+  if (stack.bottomLength <= 0) errors.push('Bottom block length must be greater than 0.');
+  if (mus < 0 || muk < 0) errors.push('Friction between the blocks cannot be negative.');
+  if (mus < muk) errors.push('Between the blocks, μs must be at least μk.');
+  return errors;
+};
@@ -0,0 +1,113 @@
+import { SurfaceConfig, SurfaceColor } from "../types";
+import { SURFACES, SURFACE_COLORS, SURFACE_LIBRARY_STORAGE_KEY, STATIC_FRICTION_OFFSET } from "../constants";
+import { validateFrictionModel } from "./frictionModels";
+import { validatePatches } from "./trackPatches";
+
+// The user's own list of surfaces, kept in localStorage between visits.
+
+export const createSurfaceId = (): string =>
+  `surface-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+/**
+ * Returns human-readable problems with a surface, or an empty list if it's usable.
+ * `others` is the rest of the library, used to keep names unique.
+ */
+export const validateSurface = (surface: SurfaceConfig, others: SurfaceConfig[] = []): string[] => {
+  const errors: string[] = [];
+  const { staticFrictionCoeff: mus, kineticFrictionCoeff: muk, frictionRange: [min, max] } = surface;
+
+  if (!surface.name.trim()) errors.push('Name is required.');
+  if (others.some(o => o.id !== surface.id && o.name.trim().toLowerCase() === surface.name.trim().toLowerCase())) {
+    errors.push(`A surface called "${surface.name.trim()}" already exists.`);
+  }
+  if (!(surface.color in SURFACE_COLORS)) errors.push('Pick a color from the palette.');
+  if (![mus, muk, min, max].every(Number.isFinite)) {
+    errors.push('Coefficients and slider range must be numbers.');
+    return errors;
+  }
+  if (mus < 0 || muk < 0) errors.push('Friction coefficients cannot be negative.');
+  if (mus < muk) errors.push('Static friction (μs) must be at least kinetic friction (μk).');
+  if (min < 0) errors.push('Slider range cannot start below 0.');
+  if (min >= max) errors.push('Slider range minimum must be below its maximum.');
+  else if (muk < min || muk > max) errors.push('μk must lie inside the slider range.');
+  if (surface.rampAngle !== undefined && !(surface.rampAngle >= 0 && surface.rampAngle <= 60)) {
+    errors.push('Ramp angle must be between 0° and 60°.');
+  }
+  if (surface.frictionModel) errors.push(...validateFrictionModel(surface.frictionModel));
+  if (surface.patches) errors.push(...validatePatches(surface.patches));
+  return errors;
+};
+
+// Anything that fails validation is dropped rather than trusted
+const isSurfaceConfig = (value: unknown): value is SurfaceConfig => {
+  if (typeof value !== 'object' || value === null) return false;
+  const s = value as SurfaceConfig;
+  return typeof s.id === 'string'
+    && typeof s.name === 'string'
+    && typeof s.description === 'string'
+    && typeof s.color === 'string'
+    && Array.isArray(s.frictionRange)
+    && (s.patches === undefined || Array.isArray(s.patches))
+    && validateSurface(s).length === 0;
+};
+
+export const loadSurfaceLibrary = (): SurfaceConfig[] => {
+  try {
+    const raw = localStorage.getItem(SURFACE_LIBRARY_STORAGE_KEY);
+    if (!raw) return SURFACES;
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return SURFACES;
+    const surfaces = parsed.filter(isSurfaceConfig);
+    return surfaces.length > 0 ? surfaces : SURFACES;
+  } catch (error) {
+    console.error("Could not load surface library:", error);
+    return SURFACES;
+  }
+};
+
+export const saveSurfaceLibrary = (surfaces: SurfaceConfig[]): void => {
+  try {
+    localStorage.setItem(SURFACE_LIBRARY_STORAGE_KEY, JSON.stringify(surfaces));
+  } catch (error) {
+    console.error("Could not save surface library:", error);
+  }
+};
+
+export const isStaticOffsetLocked = (surface: SurfaceConfig): boolean => surface.lockStaticOffset === true;
+
+const round2 = (value: number) => parseFloat(value.toFixed(2));
+
+/**
+ * Sets mu_k, keeping mu_s >= mu_k. While locked, mu_s moves with it at the
+ * fixed offset; otherwise mu_k is capped at the current mu_s.
+ */
+export const setKineticCoeff = (surface: SurfaceConfig, kinetic: number): SurfaceConfig => {
+  const value = Math.max(0, kinetic);
+  if (isStaticOffsetLocked(surface)) {
+    return { ...surface, kineticFrictionCoeff: value, staticFrictionCoeff: round2(value + STATIC_FRICTION_OFFSET), source: undefined };
+  }
+  return { ...surface, kineticFrictionCoeff: Math.min(value, surface.staticFrictionCoeff), source: undefined };
+};
+
+/**
+ * Sets mu_s, keeping mu_s >= mu_k. While locked, mu_k follows at the fixed
+ * offset; otherwise mu_s cannot drop below the current mu_k.
+ */
+export const setStaticCoeff = (surface: SurfaceConfig, staticCoeff: number): SurfaceConfig => {
+  const value = Math.max(0, staticCoeff);
+  if (isStaticOffsetLocked(surface)) {
+    const kinetic = Math.max(surface.frictionRange[0], round2(value - STATIC_FRICTION_OFFSET));
+    return { ...surface, kineticFrictionCoeff: kinetic, staticFrictionCoeff: round2(kinetic + STATIC_FRICTION_OFFSET), source: undefined };
+  }
+  return { ...surface, staticFrictionCoeff: Math.max(value, surface.kineticFrictionCoeff), source: undefined };
+};
+
+// Re-locking snaps mu_s back onto the fixed offset
+export const toggleStaticOffsetLock = (surface: SurfaceConfig): SurfaceConfig => {
+  const locked = !isStaticOffsetLocked(surface);
+  return locked
+    ? { ...surface, lockStaticOffset: true, staticFrictionCoeff: round2(surface.kineticFrictionCoeff + STATIC_FRICTION_OFFSET) }
+    : { ...surface, lockStaticOffset: false };
+};
+
+export const getSurfaceColor = (color: SurfaceColor) => SURFACE_COLORS[color] ?? SURFACE_COLORS.slate;
@@ -0,0 +1,12 @@
+import { SweepRequest } from "../types";
+import { runSweep, SweepMessage } from "./parameterSweep";
+
+// Web Worker entry: one sweep per message, progress as it goes, then the result.
+// Started from SweepExplorer with `new Worker(new URL(...), { type: 'module' })`
+
+const post = (message: SweepMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<SweepRequest>) => {
+  const result = runSweep(event.data, (done, total) => post({ type: 'progress', done, total }));
+  post({ type: 'done', result });
+};
@@ -0,0 +1,85 @@
+import { SurfaceConfig, SurfaceColor, SurfacePatch } from "../types";
+import { SURFACE_COLORS } from "../constants";
+import { validateFrictionModel } from "./frictionModels";
+
+// Tracks built from stretches of different surfaces. The engine looks up the
+// surface under the block as it goes; slope and everything else stay the track's.
+
+export const hasPatches = (surface: SurfaceConfig): boolean => (surface.patches?.length ?? 0) > 0;
+
+/**
+ * The surface under a block at `position`: the track itself, or the track
+ * with a patch's coefficients and friction model swapped in.
+ */
+export const getSurfaceAt = (surface: SurfaceConfig, position: number): SurfaceConfig => {
+  const patch = surface.patches?.find(p => position >= p.start && position < p.end);
+  if (!patch) return surface;
+  return {
+    ...surface,
+    staticFrictionCoeff: patch.staticFrictionCoeff,
+    kineticFrictionCoeff: patch.kineticFrictionCoeff,
+    frictionModel: patch.frictionModel
+  };
+};
+
+// A new patch copies another surface's coefficients
+export const createPatch = (source: SurfaceConfig, start: number, end: number): SurfacePatch => ({
+  start,
+  end,
+  name: source.name,
+  color: source.color,
+  staticFrictionCoeff: source.staticFrictionCoeff,
+  kineticFrictionCoeff: source.kineticFrictionCoeff,
+  ...(source.frictionModel ? { frictionModel: source.frictionModel } : {})
+});
+
+export const sortPatches = (patches: SurfacePatch[]): SurfacePatch[] => [...patches].sort((a, b) => a.start - b.start);
+
+export interface TrackSegment {
+  start: number; // meters
+  end: number; // meters
+  name: string;
+  color: SurfaceColor;
+  patched: boolean; // false where the track's own surface shows through
+}
+
+// The whole course from the start line to `distance`, gaps filled with the track's own surface
+export const getTrackSegments = (surface: SurfaceConfig, distance: number): TrackSegment[] => {
+  const own = { name: surface.name, color: surface.color, patched: false };
+  const segments: TrackSegment[] = [];
+  let at = 0;
+  for (const patch of sortPatches(surface.patches ?? [])) {
+    if (patch.start >= distance) break;
+    if (patch.start > at) segments.push({ start: at, end: patch.start, ...own });
+    at = Math.min(patch.end, distance);
+    segments.push({ start: patch.start, end: at, name: patch.name, color: patch.color, patched: true });
+  }
+  if (at < distance) segments.push({ start: at, end: distance, ...own });
+  return segments;
+};
+
+// Order doesn't matter here; sortPatches puts them in track order before saving
+export const validatePatches = (patches: SurfacePatch[]): string[] => {
+  const errors: string[] = [];
+  patches.forEach((patch, i) => {
+    const label = `Patch ${i + 1}`;
+    const { start, end, staticFrictionCoeff: mus, kineticFrictionCoeff: muk } = patch;
+    if (![start, end, mus, muk].every(Number.isFinite)) {
+      errors.push(`${label}: start, end and coefficients must be numbers.`);
+      return;
+    }
+    if (start < 0) errors.push(`${label}: cannot start before the start line.`);
+    if (end <= start) errors.push(`${label}: must end after it starts.`);
+    if (patches.some((other, j) => j < i && start < other.end && other.start < end)) errors.push(`${label}: overlaps another patch.`);
+    if (mus < 0 || muk < 0) errors.push(`${label}: friction coefficients cannot be negative.`);
+    if (mus < muk) errors.push(`${label}: μs must be at least μk.`);
+    if (!(patch.color in SURFACE_COLORS)) errors.push(`${label}: pick a color from the palette.`);
+    if (patch.frictionModel) errors.push(...validateFrictionModel(patch.frictionModel).map(e => `${label}: ${e}`));
+  });
+  return errors;
+};
+
+export const describePatches = (surface: SurfaceConfig, distance: number): string =>
+  getTrackSegments(surface, distance)
+    .map(s => `${s.start}–${s.end} m ${s.name}`)
+    .join(', ');
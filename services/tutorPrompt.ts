@@ -0,0 +1,65 @@
+import { SimulationParams, SimulationResult, SurfaceConfig } from "../types";
+import { describeFrictionModel } from "./frictionModels";
+import { describeForceProfile } from "./forceProfile";
+import { getHangingWeight } from "./forces";
+import { describePatches, hasPatches } from "./trackPatches";
+
+// What every network tutor is asked: the full setup and results, then the questions to answer.
+// The offline explainer answers the same questions from the same numbers.
+
+export const TUTOR_SYSTEM_INSTRUCTION = "You are a helpful and clear physics educator.";
+
+const formatEvent = (t: number | null) => t === null ? 'never' : `${t.toFixed(3)}s`;
+
+export const buildTutorPrompt = (
+  params: SimulationParams,
+  surfaces: SurfaceConfig[],
+  results: SimulationResult[]
+): string => `
+    You are a physics tutor. Explain the results of a friction simulation.
+    
+    Global Parameters:
+    - Object Mass: ${params.mass} kg
+    - Applied Push Force Strength: ${params.appliedForce} N
+    - Distance: ${params.distance} m
+    - Stacked Blocks: ${params.stack.enabled ? `yes: block B (${params.stack.topMass} kg) sits on block A (the object above), μs = ${params.stack.staticFrictionCoeff} and μk = ${params.stack.kineticFrictionCoeff} between them, push on ${params.stack.pushOn === 'top' ? 'B' : 'A'}; the surface coefficients below are for A on the track` : 'no'}
+    - Collisions: ${params.collision.enabled ? `yes: the pushed block (#1) can hit ${params.collision.targets.map((t, i) => `#${i + 2} (${t.mass} kg resting at ${t.position} m)`).join(', ')}; coefficient of restitution e = ${params.collision.restitution}, and only #1 is pushed` : 'no'}
+    - Air Drag: ${params.airDrag ? `on (ρ = ${params.airDensity} kg/m³, Cd = ${params.dragCoefficient}, A = ${params.frontalArea} m²)` : 'off'}
+    - Pull Angle: ${params.forceAngle}° above the track ${params.forceAngle !== 0 ? '(only F·cosφ drives the block; F·sinφ changes the normal force to mg·cosθ − F·sinφ)' : '(push is parallel to the track)'}
+    - Ramp Angle: ${params.rampAngle}° ${params.rampAngle > 0 ? '(track slopes downhill; normal force is mg·cosθ and gravity pulls mg·sinθ along the slope)' : '(flat)'}
+    - Force Application Mode: ${params.forceMode} 
+      ${params.forceMode === 'timed' ? `(Applied for ${params.forceDuration} seconds)` : ''}
+      ${params.forceMode === 'distance' ? `(Applied for ${params.forceDistanceLimit} meters)` : ''}
+      ${params.forceMode === 'impulse' ? `(Applied as a short initial push)` : ''}
+      ${params.forceMode === 'hanging' ? `(No push: a ${params.hangingMass} kg mass hangs over a pulley at the end of the track${params.pulleyInertia > 0 ? ` with inertia ${params.pulleyInertia} kg·m² and radius ${params.pulleyRadius} m` : ', frictionless and massless'}, so the drive is mₕg = ${getHangingWeight(params).toFixed(1)} N and the strength above is not used)` : ''}
+      ${params.forceMode === 'profile' ? `(Push follows a user-defined profile: ${describeForceProfile(params.forceProfile)}; the strength above is not used)` : ''}
+    
+    Surfaces (set up by the user):
+    ${surfaces.map(s => `- ${s.name}: μs = ${s.staticFrictionCoeff}, μk = ${s.kineticFrictionCoeff}, friction model: ${describeFrictionModel(s)}${s.rampAngle !== undefined ? `, own ramp angle ${s.rampAngle}°` : ''}${s.description ? ` (${s.description})` : ''}${hasPatches(s) ? `; the track is patched: ${describePatches(s, params.distance)}` : ''}`).join('\n    ')}
+
+    Results per Surface:
+    ${results.map(r => `
+      - Surface: ${r.surface}
+        - Max Static Friction Limit: ${r.staticFrictionLimit.toFixed(2)} N
+        - Moved: ${r.didMove ? 'YES' : 'NO'}${r.liftedOff ? ' (LIFTED OFF: the pull outweighed the block)' : ''}
+        - Optimal Pull Angle: ${r.optimalForceAngle.toFixed(1)}° (atan μs), needing only ${r.minBreakawayForce.toFixed(1)} N to start sliding
+        - Outcome: ${r.completed ? 'crossed the finish line' : r.status === 'slid-off' ? `top block slid off the bottom one at ${r.stopPosition.toFixed(2)} m` : r.didMove && !r.liftedOff ? `stopped short at ${r.stopPosition.toFixed(2)} m` : 'never reached the finish'}
+        ${r.tension !== null ? `- String Tension: ${r.tension.toFixed(2)} N (hanging weight ${r.appliedForce.toFixed(2)} N)` : ''}
+        ${r.stack ? `- Stack: ${r.stack.slipped ? `B slipped on A, ending ${r.stack.slipDistance.toFixed(2)} m from where it started on A` : 'B and A moved together the whole time'}; B's top speed ${r.stack.topMaxVelocity.toFixed(2)} m/s` : ''}
+        ${r.collision ? `- Collisions: ${r.collision.events.length} impact(s) losing ${r.energy.workCollision.toFixed(1)} J in total${r.collision.events.length > 0 ? `, the first at ${r.collision.events[0].time.toFixed(2)} s with momentum ${r.collision.events[0].momentumBefore.toFixed(2)} → ${r.collision.events[0].momentumAfter.toFixed(2)} kg·m/s` : ''}; blocks came to rest at ${r.collision.stopDistances.map((d, i) => `#${i + 1} ${d.toFixed(2)} m`).join(', ')}` : ''}
+        ${r.segments ? `- Segments: ${r.segments.map(seg => `${seg.name} ${seg.start}–${seg.end} m: ${seg.reached ? `entered at ${seg.entrySpeed!.toFixed(2)} m/s, ${seg.timeSpent.toFixed(2)} s spent, ${seg.heat.toFixed(0)} J of heat` : 'never reached'}`).join('; ')}` : ''}
+        ${r.completed ? `- Final Time: ${r.finalTime.toFixed(2)}s` : ''}
+        ${r.didMove ? `- Max Velocity: ${r.maxVelocity.toFixed(2)}m/s\n        - Peak Acceleration: ${r.peakAcceleration.toFixed(2)}m/s²` : ''}
+        - Energy: push did ${r.energy.workApplied.toFixed(1)} J of work, gravity did ${r.energy.workGravity.toFixed(1)} J, friction turned ${r.energy.workFriction.toFixed(1)} J into heat, air drag took ${r.energy.workDrag.toFixed(1)} J,${r.collision ? ` impacts lost ${r.energy.workCollision.toFixed(1)} J,` : ''} final kinetic energy ${r.energy.kineticEnergy.toFixed(1)} J
+        ${r.analytic.didMove ? `- ${r.accuracy.reference === 'exact' ? 'Exact' : 'Reference (fine-step)'} Events: force cut off at ${formatEvent(r.analytic.events.forceCutoff)}, crossed finish at ${formatEvent(r.analytic.events.finishCrossing)}, came to rest at ${formatEvent(r.analytic.events.rest)} (${r.analytic.stopDistance.toFixed(2)} m)` : ''}
+    `).join('\n')}
+    
+    Please explain:
+    1. Why did some objects move and others didn't (Applied Force vs Static Friction)?
+    2. For moving objects, how did the Net Force change? (Consider if the applied force stopped mid-way).
+    3. If the force stopped (Impulse/Timed/Distance), how did Friction act to slow the object down (deceleration)?
+    4. Where did the energy go? Use the work-energy theorem (Work by push + Work by gravity - Heat from friction - Work against drag = change in kinetic energy).
+    5. Provide a brief "Physics Takeaway".
+
+    Keep the explanation concise, formatted with clear headings or bullet points. Use Markdown.
+  `;
@@ -0,0 +1,99 @@
+import { SimulationParams, SimulationResult, SurfaceConfig, TutorProviderId, TutorSettings } from "../types";
+import { TUTOR_SETTINGS_STORAGE_KEY } from "../constants";
+import { buildTutorPrompt } from "./tutorPrompt";
+import { generatePhysicsExplanation } from "./geminiService";
+import { generateWithOpenAICompatible } from "./openAICompatibleService";
+import { explainOffline } from "./offlineTutor";
+
+// The tutor behind AIInsights. Network providers can be blocked or fail; the
+// offline explainer never does, so it is also the fallback for the others.
+
+export interface TutorProvider {
+  label: string;
+  description: string;
+  needsNetwork: boolean;
+  explain: (params: SimulationParams, surfaces: SurfaceConfig[], results: SimulationResult[], settings: TutorSettings) => Promise<string>;
+}
+
+export const TUTOR_PROVIDERS: Record<TutorProviderId, TutorProvider> = {
+  'gemini': {
+    label: 'Google Gemini',
+    description: 'Gemini 2.5 Flash with the API key the app was built with.',
+    needsNetwork: true,
+    explain: (params, surfaces, results) => generatePhysicsExplanation(buildTutorPrompt(params, surfaces, results))
+  },
+  'openai-compatible': {
+    label: 'Local / OpenAI-compatible',
+    description: 'Any chat-completions server, such as a llama.cpp or Ollama server on the school network.',
+    needsNetwork: true,
+    explain: (params, surfaces, results, settings) => generateWithOpenAICompatible(buildTutorPrompt(params, surfaces, results), settings)
+  },
+  'offline': {
+    label: 'Offline explainer',
+    description: 'Worked through from the results in the browser. No network, same answer every time.',
+    needsNetwork: false,
+    explain: async (params, surfaces, results) => explainOffline(params, surfaces, results)
+  }
+};
+
+// Gemini only when the build has a key for it
+export const DEFAULT_TUTOR_SETTINGS: TutorSettings = {
+  provider: process.env.API_KEY ? 'gemini' : 'offline',
+  endpoint: 'http://localhost:8080/v1',
+  model: 'local-model',
+  apiKey: ''
+};
+
+export const loadTutorSettings = (): TutorSettings => {
+  try {
+    const raw = localStorage.getItem(TUTOR_SETTINGS_STORAGE_KEY);
+    if (!raw) return DEFAULT_TUTOR_SETTINGS;
+    const parsed: unknown = JSON.parse(raw);
+    if (typeof parsed !== 'object' || parsed === null) return DEFAULT_TUTOR_SETTINGS;
+    const settings = { ...DEFAULT_TUTOR_SETTINGS, ...parsed } as TutorSettings;
+    const valid = typeof settings.provider === 'string' && Object.hasOwn(TUTOR_PROVIDERS, settings.provider)
+      && [settings.endpoint, settings.model, settings.apiKey].every(field => typeof field === 'string');
+    return valid ? settings : DEFAULT_TUTOR_SETTINGS;
+  } catch (error) {
+    console.error("Could not load tutor settings:", error);
+    return DEFAULT_TUTOR_SETTINGS;
+  }
+};
+
+export const saveTutorSettings = (settings: TutorSettings): void => {
+  try {
+    localStorage.setItem(TUTOR_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Could not save tutor settings:", error);
+  }
+};
+
+export interface TutorExplanation {
+  text: string; // Markdown
+  provider: TutorProviderId; // who actually wrote it
+  fallbackReason: string | null; // why the chosen provider was skipped, null if it answered
+}
+
+/**
+ * Asks the chosen provider, and answers with the offline explainer instead
+ * if it fails for any reason. Never rejects.
+ */
+export const explainResults = async (
+  settings: TutorSettings,
+  params: SimulationParams,
+  surfaces: SurfaceConfig[],
+  results: SimulationResult[]
+): Promise<TutorExplanation> => {
+  const provider = TUTOR_PROVIDERS[settings.provider];
+  try {
+    const text = await provider.explain(params, surfaces, results, settings);
+    return { text, provider: settings.provider, fallbackReason: null };
+  } catch (error) {
+    console.error(`${provider.label} failed:`, error);
+    return {
+      text: explainOffline(params, surfaces, results),
+      provider: 'offline',
+      fallbackReason: error instanceof Error ? error.message : String(error)
+    };
+  }
+};
@@ -1,31 +1,181 @@
+// Key into SURFACE_COLORS
+export type SurfaceColor = 'cyan' | 'slate' | 'orange' | 'emerald' | 'rose' | 'violet' | 'amber' | 'sky';
 
-export enum SurfaceType {
-  ICE = 'Ice',
-  NORMAL = 'Floor',
-  ROUGH = 'Rough (like Sandpaper)'
+// 'hanging' replaces the push with a falling mass on a string over a pulley at the end of the track
+export type ForceMode = 'continuous' | 'impulse' | 'timed' | 'distance' | 'profile' | 'hanging';
+
+// One piece of a piecewise force profile; `length` is in seconds or meters
+export type ProfileSegment =
+  | { type: 'hold'; length: number; value: number }
+  | { type: 'ramp'; length: number; from: number; to: number }
+  | { type: 'step'; length: number; from: number; to: number } // jumps from -> to halfway through
+  | { type: 'sine'; length: number; offset: number; amplitude: number; period: number };
+
+export type ProfileSegmentType = ProfileSegment['type'];
+
+// A user-built push for ForceMode 'profile'. Forces below zero are clipped: the push can't pull
+export interface ForceProfile {
+  variable: 't' | 'x'; // segments run along time or distance
+  kind: 'segments' | 'expression';
+  segments: ProfileSegment[]; // zero force after the last one
+  expression: string; // may use t (s) and x (m), e.g. "200*sin(t)"
+  expressionEnd: number; // seconds; an expression in t pushes until then and 0 N after, so the run can settle
 }
 
-export type ForceMode = 'continuous' | 'impulse' | 'timed' | 'distance';
+export type IntegratorType = 'euler' | 'semi-implicit-euler' | 'verlet' | 'rk4';
+
+export type FrictionModelType = 'coulomb' | 'viscous' | 'stribeck';
+
+// How sliding friction depends on speed; every model holds mu_s until breakaway
+export type FrictionModel =
+  | { type: 'coulomb' } // F = mu_k·N
+  | { type: 'viscous'; viscousCoeff: number } // F = mu_k·N + b·v, b in N·s/m
+  | {
+      type: 'stribeck';
+      stribeckVelocity: number; // m/s, speed at which mu has mostly fallen from mu_s to mu_k
+      exponent: number; // shape of the fall-off, 2 gives the classic Gaussian curve
+      viscousCoeff: number; // N·s/m
+    };
+
+// A stretch of another surface laid over part of a track, with its coefficients
+// copied in so the track doesn't change if the original is edited later
+export interface SurfacePatch {
+  start: number; // meters from the start line
+  end: number; // meters; the track's own surface applies outside every patch
+  name: string;
+  color: SurfaceColor;
+  staticFrictionCoeff: number; // mu_s
+  kineticFrictionCoeff: number; // mu_k
+  frictionModel?: FrictionModel; // Coulomb when missing
+}
 
 export interface SurfaceConfig {
-  type: SurfaceType;
+  id: string; // stable key, survives renames
+  name: string;
   staticFrictionCoeff: number; // mu_s
   kineticFrictionCoeff: number; // mu_k
   frictionRange: [number, number]; // [min, max] for kinetic friction
-  color: string;
+  color: SurfaceColor;
   description: string;
+  rampAngle?: number; // degrees, overrides SimulationParams.rampAngle for this track
+  source?: string; // where the coefficients came from, if from the material library
+  lockStaticOffset?: boolean; // mu_s follows mu_k + STATIC_FRICTION_OFFSET
+  frictionModel?: FrictionModel; // Coulomb when missing
+  patches?: SurfacePatch[]; // sorted by start, never overlapping
+}
+
+// A real-world material pairing with published coefficients
+export interface MaterialPair {
+  id: string;
+  name: string;
+  staticFrictionCoeff: number; // mu_s
+  kineticFrictionCoeff: number; // mu_k
+  frictionRange: [number, number]; // sensible slider range for mu_k
+  description: string;
+  source: string;
+}
+
+// Block B stacked on block A (params.mass), which sits on each track's surface
+export interface StackConfig {
+  enabled: boolean;
+  topMass: number; // kg, block B
+  staticFrictionCoeff: number; // mu_s between the blocks
+  kineticFrictionCoeff: number; // mu_k between the blocks
+  pushOn: 'top' | 'bottom'; // which block the push acts on
+  bottomLength: number; // meters; B starts centred on A and falls off after slipping half of this
+}
+
+// The top block of a stack; the rest of SimulationState describes the bottom one
+export interface StackState {
+  position: number; // meters along the track
+  velocity: number; // m/s
+  acceleration: number; // m/s^2
+  frictionForce: number; // Newtons on B from A, positive forward
+  slipping: boolean; // B is sliding over A rather than riding with it
+}
+
+// A block sitting at rest further down the track, waiting to be hit
+export interface CollisionTarget {
+  mass: number; // kg
+  position: number; // meters from the start
+}
+
+export interface CollisionConfig {
+  enabled: boolean;
+  restitution: number; // e: 0 perfectly inelastic (they move off together) to 1 elastic
+  targets: CollisionTarget[];
+}
+
+// stuck: at rest, static friction holding (it may still break free)
+// sliding: moving under kinetic friction
+// stopped-short: came to rest before the finish and nothing can move it again
+// crossed-finish: reached the finish line
+// lifted-off: the pull's vertical part beat the weight, so the model stops applying
+// slid-off: a stack's top block slipped off the end of the bottom one
+export type MotionStatus = 'stuck' | 'sliding' | 'stopped-short' | 'crossed-finish' | 'lifted-off' | 'slid-off';
+
+// One block on a multi-body track; bodies[0] is the pushed block
+export interface BodyState {
+  mass: number; // kg
+  position: number; // meters
+  velocity: number; // m/s, negative once knocked backwards
+  acceleration: number; // m/s^2
+  frictionForce: number; // Newtons, magnitude
+  status: MotionStatus;
+}
+
+export interface CollisionEvent {
+  time: number; // seconds
+  position: number; // meters where the blocks met
+  bodies: [number, number]; // indices into SimulationState.bodies, the rear one first
+  momentumBefore: number; // kg·m/s, the pair's total
+  momentumAfter: number; // kg·m/s
+  energyLost: number; // Joules turned into heat and sound by the impact
 }
 
 export interface SimulationState {
-  id: SurfaceType;
+  id: string; // SurfaceConfig.id
   position: number; // meters
   velocity: number; // m/s
   acceleration: number; // m/s^2
   timeElapsed: number; // seconds
-  isFinished: boolean;
-  status: 'static' | 'moving' | 'finished';
+  isFinished: boolean; // in a final status: anything but stuck or sliding
+  status: MotionStatus;
+  frictionForce: number; // Newtons
+  dragForce: number; // Newtons of air resistance
+  currentAppliedForce: number; // Newtons (actual force applied in this frame); the hanging weight m_h·g in 'hanging' mode
+  tension: number; // Newtons the string pulls the block with, 0 without a hanging mass
+  workApplied: number; // Joules done by the push so far
+  workFriction: number; // Joules dissipated by kinetic friction so far
+  workGravity: number; // Joules done by gravity sliding down the ramp so far
+  workDrag: number; // Joules lost to air resistance so far
+  kineticEnergy: number; // Joules, of both blocks for a stack
+  stack?: StackState; // only when params.stack is enabled
+  // Only when params.collision is enabled. Position, velocity, acceleration and friction
+  // above mirror bodies[0]; the work and kinetic energy totals cover every body
+  bodies?: BodyState[];
+  collisions?: CollisionEvent[];
+  workCollision?: number; // Joules lost in impacts so far
+}
+
+// One recorded engine step for one surface
+export interface TrajectorySample {
+  time: number; // seconds
+  position: number; // meters
+  velocity: number; // m/s
+  acceleration: number; // m/s^2
+  appliedForce: number; // Newtons
   frictionForce: number; // Newtons
-  currentAppliedForce: number; // Newtons (actual force applied in this frame)
+  dragForce: number; // Newtons
+  topVelocity?: number; // m/s, the stack's top block
+  bodyPositions?: number[]; // meters, every body on a multi-body track
+  bodyVelocities?: number[]; // m/s
+  tension: number; // Newtons
+}
+
+export interface Trajectory {
+  surfaceId: string;
+  samples: TrajectorySample[];
 }
 
 export interface SimulationParams {
@@ -35,14 +185,219 @@ export interface SimulationParams {
   forceMode: ForceMode;
   forceDuration: number; // seconds
   forceDistanceLimit: number; // meters
+  rampAngle: number; // degrees, track slopes down in the direction of travel
+  forceAngle: number; // degrees above the track surface the push/pull points, negative presses down
+  integrator: IntegratorType;
+  timeStep: number; // seconds per engine step
+  snapToExact: boolean; // resolve stops and finish crossings inside the step instead of on frame boundaries
+  forceProfile: ForceProfile; // used when forceMode is 'profile'
+  airDrag: boolean; // add 1/2·rho·Cd·A·v^2 against the motion
+  airDensity: number; // kg/m^3
+  dragCoefficient: number; // Cd, dimensionless
+  frontalArea: number; // m^2
+  stack: StackConfig;
+  collision: CollisionConfig;
+  hangingMass: number; // kg, used when forceMode is 'hanging'
+  pulleyInertia: number; // kg·m^2, 0 for an ideal pulley
+  pulleyRadius: number; // m
+}
+
+// A stretch of motion with constant acceleration
+export interface MotionPhase {
+  startTime: number; // seconds
+  endTime: number; // seconds
+  startPosition: number; // meters
+  startVelocity: number; // m/s
+  acceleration: number; // m/s^2
+}
+
+// Exact event times in seconds since the start, null if the event never happens
+export interface AnalyticEvents {
+  breakaway: number | null;
+  forceCutoff: number | null;
+  finishCrossing: number | null;
+  rest: number | null;
+}
+
+// Closed-form motion for one surface under the current params
+export interface AnalyticSolution {
+  didMove: boolean;
+  reachedFinish: boolean;
+  stopTime: number; // seconds until it comes to rest or crosses the finish
+  stopDistance: number; // meters travelled by then
+  maxVelocity: number; // m/s
+  events: AnalyticEvents;
+  phases: MotionPhase[];
+}
+
+export interface ErrorReport {
+  numerical: number;
+  analytic: number;
+  absoluteError: number;
+  relativeError: number; // fraction of the analytic value, 0 when both are 0
+}
+
+export interface AccuracyReport {
+  integrator: IntegratorType;
+  reference: 'exact' | 'fine-step'; // closed form, or a fine RK4 run when the friction model has none
+  timeStep: number;
+  stopTime: ErrorReport;
+  stopDistance: ErrorReport;
+  maxVelocity: ErrorReport;
+}
+
+// Work-energy theorem check: W_applied + W_gravity - W_friction - W_drag should equal the change in KE
+export interface EnergyBalance {
+  workApplied: number; // Joules
+  workGravity: number; // Joules
+  workFriction: number; // Joules, heat
+  workDrag: number; // Joules, lost to the air
+  workCollision: number; // Joules, lost in impacts between blocks
+  kineticEnergy: number; // Joules at the end of the run
+  deltaKineticEnergy: number; // Joules
+  residual: number; // Joules, W_applied + W_gravity - W_friction - W_drag - W_collision - dKE
+  balanced: boolean; // residual within ENERGY_TOLERANCE
+}
+
+export interface StackResult {
+  slipped: boolean; // the blocks slid over each other at some point
+  slipDistance: number; // meters B ended up ahead of (+) or behind (-) where it started on A
+  topMaxVelocity: number; // m/s
+}
+
+export interface CollisionResult {
+  events: CollisionEvent[];
+  stopDistances: number[]; // meters, where each body ended up, in SimulationState.bodies order
+  masses: number[]; // kg, same order
+}
+
+// Time and energy spent on one stretch of a patched track, read off the recorded steps
+export interface SegmentResult {
+  name: string;
+  color: SurfaceColor;
+  start: number; // meters
+  end: number; // meters
+  reached: boolean;
+  entrySpeed: number | null; // m/s on arrival, null if never reached
+  timeSpent: number; // seconds, including any time stuck on it
+  heat: number; // Joules turned into heat by friction here
+  workApplied: number; // Joules of push work done here
+}
+
+// What the inverse solver aims for, and the one input it may change to get there
+export type SolverTarget = 'finishTime' | 'stopPosition' | 'maxVelocity';
+export type SolverVariable = 'appliedForce' | 'forceDuration' | 'forceDistanceLimit' | 'mass' | 'kineticFrictionCoeff';
+
+export interface SolverSolution {
+  surfaceId: string;
+  variable: SolverVariable;
+  value: number | null; // null when no value in the searched range gets there
+  achieved: number | null; // the target quantity the engine gives at `value`
+  exact: boolean; // achieved is within tolerance of the goal, not just the closest the engine jumps to
+  explanation: string;
+}
+
+export interface SolverRequest {
+  target: SolverTarget;
+  goal: number;
+  variable: SolverVariable;
+  params: SimulationParams;
+  surfaces: SurfaceConfig[];
+}
+
+// Inputs a parameter sweep can step through; the coefficients and slope belong to the swept surface
+export type SweepParameter = 'appliedForce' | 'mass' | 'forceDuration' | 'forceDistanceLimit' | 'forceAngle' | 'rampAngle' | 'staticFrictionCoeff' | 'kineticFrictionCoeff';
+export type SweepMetric = 'finishTime' | 'stopPosition' | 'moved';
+
+export interface SweepAxis {
+  parameter: SweepParameter;
+  from: number;
+  to: number;
+  steps: number; // grid points, both ends included
+}
+
+export interface SweepRequest {
+  params: SimulationParams;
+  surface: SurfaceConfig;
+  x: SweepAxis;
+  y: SweepAxis | null; // null for a 1D sweep
+}
+
+export interface SweepCell {
+  x: number;
+  y: number | null;
+  finishTime: number | null; // seconds, null if it never crossed the line
+  stopPosition: number; // meters, where it ended up
+  moved: boolean; // broke free of static friction at all
+}
+
+export interface SweepResult {
+  surfaceId: string;
+  x: SweepAxis;
+  y: SweepAxis | null;
+  cells: SweepCell[]; // row by row: every x for the first y, then the next y
+  breakaway: { x: number; y: number }[]; // F = mu_s·m·g boundary, empty unless one axis is the applied force
+}
+
+// Who writes the explanation under the results
+export type TutorProviderId = 'gemini' | 'openai-compatible' | 'offline';
+
+export interface TutorSettings {
+  provider: TutorProviderId;
+  endpoint: string; // base URL of an OpenAI-compatible server, e.g. http://localhost:8080/v1
+  model: string; // model name sent to that server
+  apiKey: string; // optional bearer token for that server
+}
+
+// A finished run kept in the local history for later comparison
+export interface RunRecord {
+  id: string;
+  number: number; // counts up from run to run, unaffected by the history cap
+  label: string;
+  notes: string;
+  createdAt: number; // ms since epoch
+  params: SimulationParams;
+  surfaces: SurfaceConfig[];
+  results: SimulationResult[];
+}
+
+// Display toggles that travel with an experiment
+export interface ExperimentOptions {
+  showForceValues: boolean;
+  showStaticLimit: boolean;
+}
+
+// Everything needed to set up the same run elsewhere; see services/experimentFile.ts
+export interface Experiment {
+  version: number;
+  params: SimulationParams;
+  surfaces: SurfaceConfig[];
+  options: ExperimentOptions;
 }
 
 export interface SimulationResult {
-  surface: SurfaceType;
-  finalTime: number; // seconds, Infinity if it didn't move
-  maxVelocity: number;
+  surfaceId: string;
+  surface: string; // display name
+  finalTime: number; // seconds to cross the finish, Infinity if it never did
+  completed: boolean; // crossed the finish line
+  stopPosition: number; // meters, where the block ended up (the track length if it finished)
+  status: MotionStatus; // how the run ended
+  maxVelocity: number; // m/s, from the recorded trajectory
+  peakAcceleration: number; // m/s^2, largest magnitude in the recorded trajectory
+  breakawayTime: number | null; // seconds, null if it never broke free
   didMove: boolean;
   staticFrictionLimit: number;
-  appliedForce: number;
+  appliedForce: number; // Newtons, the peak push for a force profile
+  liftedOff: boolean; // the pull lifted the block off the track, so the run is invalid
+  optimalForceAngle: number; // degrees, atan(mu_s): needs the least force to start sliding
+  breakawayForce: number; // Newtons needed to start sliding at the current pull angle
+  minBreakawayForce: number; // Newtons needed to start sliding when pulled at the optimal angle
   forceMode: ForceMode;
+  tension: number | null; // Newtons, averaged while sliding (m_h·g if it never moved); null without a hanging mass
+  stack?: StackResult; // only for a stacked run
+  collision?: CollisionResult; // only for a multi-body run
+  segments?: SegmentResult[]; // only for a patched track
+  analytic: AnalyticSolution;
+  accuracy: AccuracyReport;
+  energy: EnergyBalance;
 }